@@ -0,0 +1,91 @@
+import { generateText } from "ai";
+import { z } from "zod";
+
+import {
+  afterActionStats,
+  narrativePrompt,
+  parseNarrative,
+  reportTitle,
+  type AfterActionReport,
+} from "@/lib/after-action";
+import { reportHtml, reportMarkdown } from "@/lib/after-action-export";
+import { systemPrompt } from "@/lib/assistant-tools";
+import { chatErrorResponse } from "@/lib/chat-errors";
+import { modelForRequest, requestIssues } from "@/lib/chat-request";
+import { recordFailure, recordRequest, recordTokens } from "@/lib/chat-usage";
+import { sessionContextSchema } from "@/lib/session-query";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const afterActionRequestSchema = z.object({
+  session: sessionContextSchema,
+  // Counted against the same usage as the session's chat
+  sessionId: z.string().min(1).max(128).default("anonymous"),
+  model: z.string().optional(),
+});
+
+// Build the after-action report of a session: JSON by default, or the
+// rendered document with ?format=markdown or ?format=html
+export async function POST(req: Request) {
+  const format = new URL(req.url).searchParams.get("format") ?? "json";
+  if (!["json", "markdown", "html"].includes(format)) {
+    return chatErrorResponse(400, { error: `Unknown format "${format}"`, code: "invalid_request" });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return chatErrorResponse(400, { error: "Request body is not valid JSON", code: "invalid_json" });
+  }
+  const parsed = afterActionRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return chatErrorResponse(400, {
+      error: "Invalid after-action request",
+      code: "invalid_request",
+      issues: requestIssues(parsed.error),
+    });
+  }
+  const { session, sessionId, model: requestedModel } = parsed.data;
+  if (session.transmissions.length === 0) {
+    return chatErrorResponse(400, { error: "The session has no transmissions to report on", code: "invalid_request" });
+  }
+
+  const model = modelForRequest(requestedModel);
+  if (model instanceof Response) return model;
+
+  const stats = afterActionStats(session);
+  const report: AfterActionReport = {
+    title: reportTitle(stats),
+    generatedAt: new Date().toISOString(),
+    model: model.modelId,
+    stats,
+    narrative: null,
+  };
+
+  // A failed draft still leaves a report; the statistics don't need the model
+  recordRequest(sessionId);
+  try {
+    const { text, usage } = await generateText({
+      model,
+      system: systemPrompt(false),
+      prompt: narrativePrompt(stats),
+    });
+    recordTokens(sessionId, usage);
+    report.narrative = parseNarrative(text);
+  } catch (error) {
+    recordFailure(sessionId);
+    console.error("After-action narrative failed:", error);
+    report.narrativeError = error instanceof Error ? error.message : "The model request failed";
+  }
+
+  switch (format) {
+    case "markdown":
+      return new Response(reportMarkdown(report), { headers: { "Content-Type": "text/markdown; charset=utf-8" } });
+    case "html":
+      return new Response(reportHtml(report), { headers: { "Content-Type": "text/html; charset=utf-8" } });
+    default:
+      return Response.json(report);
+  }
+}
@@ -1,26 +1,66 @@
-import { openai } from "@ai-sdk/openai";
 import { jsonSchema, streamText } from "ai";
 
-export const runtime = "edge";
+import { sessionTools, systemPrompt } from "@/lib/assistant-tools";
+import { chatErrorResponse } from "@/lib/chat-errors";
+import { chatRequestSchema, modelForRequest, requestIssues } from "@/lib/chat-request";
+import { recordFailure, recordRequest, recordTokens } from "@/lib/chat-usage";
+
+// Node, not edge, so every request lands on the same usage counters
+export const runtime = "nodejs";
 export const maxDuration = 30;
 
+// Tool calls and the answer that follows them
+const MAX_STEPS = 5;
+
 export async function POST(req: Request) {
-  const { messages, system, tools } = await req.json();
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return chatErrorResponse(400, { error: "Request body is not valid JSON", code: "invalid_json" });
+  }
+
+  const parsed = chatRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return chatErrorResponse(400, {
+      error: "Invalid chat request",
+      code: "invalid_request",
+      issues: requestIssues(parsed.error),
+    });
+  }
+  const { messages, system, tools, session, sessionId, model: requestedModel } = parsed.data;
 
+  const model = modelForRequest(requestedModel);
+  if (model instanceof Response) return model;
+
+  recordRequest(sessionId);
   const result = streamText({
-    model: openai("gpt-4o"),
+    model,
     messages,
-    // forward system prompt and tools from the frontend
-    system,
-    tools: Object.fromEntries(
-      Object.entries<{ parameters: unknown }>(tools).map(([name, tool]) => [
-        name,
-        {
-          parameters: jsonSchema(tool.parameters!),
-        },
-      ]),
-    ),
+    system: systemPrompt(session !== undefined, system),
+    tools: {
+      ...Object.fromEntries(
+        Object.entries(tools).map(([name, tool]) => [
+          name,
+          {
+            description: tool.description,
+            parameters: jsonSchema(tool.parameters),
+          },
+        ]),
+      ),
+      // Session tools win over a client tool of the same name
+      ...(session ? sessionTools(session) : {}),
+    },
+    maxSteps: MAX_STEPS,
+    onFinish: ({ usage }) => recordTokens(sessionId, usage),
+    onError: ({ error }) => {
+      recordFailure(sessionId);
+      console.error("Chat stream failed:", error);
+    },
   });
 
-  return result.toDataStreamResponse();
+  // Failures after streaming starts reach the client as an error part
+  return result.toDataStreamResponse({
+    getErrorMessage: (error) => (error instanceof Error ? error.message : "The model request failed"),
+  });
 }
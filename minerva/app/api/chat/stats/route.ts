@@ -0,0 +1,16 @@
+import { allSessionUsage, sessionUsage, usageTotals } from "@/lib/chat-usage";
+
+export const runtime = "nodejs";
+
+// Usage counters of /api/chat: all sessions, or one with ?session=<id>
+export async function GET(req: Request) {
+  const sessionId = new URL(req.url).searchParams.get("session");
+  if (sessionId !== null) {
+    const usage = sessionUsage(sessionId);
+    if (!usage) {
+      return Response.json({ error: `No chat usage for session "${sessionId}"` }, { status: 404 });
+    }
+    return Response.json(usage);
+  }
+  return Response.json({ totals: usageTotals(), sessions: allSessionUsage() });
+}
@@ -0,0 +1,104 @@
+import { gatewayFor, type GatewayEvent } from "@/lib/feed-gateway";
+
+export const runtime = "nodejs";
+
+// Keeps the stream, and any proxy in between, from going quiet
+const SSE_HEARTBEAT_MS = 10_000;
+
+// One Server-Sent Event; a multi-line payload becomes several data lines
+const sseEvent = (event: string, data: string, id?: number) =>
+  `${id !== undefined ? `id: ${id}\n` : ""}event: ${event}\n${data
+    .split(/\r?\n/)
+    .map((line) => `data: ${line}`)
+    .join("\n")}\n\n`;
+
+const encodeEvent = (event: GatewayEvent) => {
+  switch (event.type) {
+    case "frame":
+      return sseEvent("frame", event.raw, event.seq);
+    case "status":
+      return sseEvent("status", JSON.stringify({ upstream: event.upstream }));
+    case "restart":
+      // An event with no data is never dispatched
+      return sseEvent("restart", "{}");
+  }
+};
+
+// The feed as Server-Sent Events: the upstream status, the buffered frames
+// after Last-Event-ID (header, or ?lastEventId=), then live frames
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const gateway = await gatewayFor(id);
+  if (!gateway) {
+    return Response.json({ error: `Feed "${id}" not found` }, { status: 404 });
+  }
+
+  const cursor = req.headers.get("last-event-id") ?? new URL(req.url).searchParams.get("lastEventId");
+  const lastSeq = cursor && /^\d+$/.test(cursor) ? Number(cursor) : null;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => controller.enqueue(encoder.encode(text));
+      // Catch-up and subscription happen in one turn, so no frame falls between
+      write(encodeEvent({ type: "status", upstream: gateway.status() }));
+      if (gateway.startedOverSince(lastSeq)) write(encodeEvent({ type: "restart" }));
+      for (const frame of gateway.since(lastSeq)) write(encodeEvent({ type: "frame", ...frame }));
+      const unsubscribe = gateway.subscribe((event) => write(encodeEvent(event)));
+      const heartbeat = setInterval(() => write(sseEvent("heartbeat", "{}")), SSE_HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = () => {};
+      };
+      req.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the client going away
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+// Forward an order frame upstream and answer with its ack, { ack } with the
+// raw frame, or null if none came in time. Other frame types (heartbeats,
+// resume requests) are the gateway's own business.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const gateway = await gatewayFor(id);
+  if (!gateway) {
+    return Response.json({ error: `Feed "${id}" not found` }, { status: 404 });
+  }
+  const frame = await req.text();
+  let parsed: { type?: unknown; order_id?: unknown } | null;
+  try {
+    parsed = JSON.parse(frame);
+  } catch {
+    return Response.json({ error: "Frame is not valid JSON" }, { status: 400 });
+  }
+  if (parsed?.type !== "order" || typeof parsed.order_id !== "string" || !parsed.order_id) {
+    return Response.json({ error: "Only order frames with an order_id can be sent through the gateway" }, { status: 400 });
+  }
+  const result = await gateway.sendOrder(frame, parsed.order_id);
+  if (!result.delivered) {
+    return Response.json({ error: `Feed "${id}" is not connected upstream` }, { status: 503 });
+  }
+  return Response.json({ ack: result.ack });
+}
@@ -0,0 +1,17 @@
+import { gatewayFeeds, gatewayStatus } from "@/lib/feed-gateway";
+import { gatewayPath } from "@/lib/feed-sources";
+
+export const runtime = "nodejs";
+
+// The feeds the gateway serves, with the URL a dashboard subscribes to
+export async function GET() {
+  const feeds = await gatewayFeeds();
+  return Response.json(
+    feeds.map((feed) => ({
+      id: feed.id,
+      label: feed.label,
+      url: gatewayPath(feed.id),
+      upstream: gatewayStatus(feed.id),
+    })),
+  );
+}
@@ -0,0 +1,20 @@
+import { gatewayUrlFor } from "@/lib/feed-gateway";
+import { isSocketUrl } from "@/lib/feed-sources";
+import { getMission } from "@/lib/mission-store";
+
+export const runtime = "nodejs";
+
+// A live feed is handed out as its gateway path, so every viewer shares the
+// server's link instead of opening a socket to the simulator itself
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const mission = await getMission(id);
+  if (!mission) {
+    return Response.json({ error: `Mission "${id}" not found` }, { status: 404 });
+  }
+  if ("url" in mission.feed && isSocketUrl(mission.feed.url)) {
+    const url = await gatewayUrlFor(mission.feed.url);
+    if (url) return Response.json({ ...mission, feed: { url } });
+  }
+  return Response.json(mission);
+}
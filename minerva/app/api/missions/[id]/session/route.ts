@@ -0,0 +1,12 @@
+import { getMissionSession } from "@/lib/mission-store";
+
+export const runtime = "nodejs";
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const session = await getMissionSession(id);
+  if (session === null) {
+    return Response.json({ error: `Mission "${id}" has no recorded session` }, { status: 404 });
+  }
+  return new Response(session, { headers: { "Content-Type": "application/x-ndjson" } });
+}
@@ -0,0 +1,7 @@
+import { listMissions } from "@/lib/mission-store";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  return Response.json(await listMissions());
+}
@@ -0,0 +1,29 @@
+import { appendMessage } from "@/lib/thread-store";
+import { storedMessageSchema, threadSummary } from "@/lib/threads";
+
+export const runtime = "nodejs";
+
+// Save one message as the runtime appends it: { parentId, message }
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "Request body is not valid JSON" }, { status: 400 });
+  }
+  const item = storedMessageSchema.safeParse(body);
+  if (!item.success) {
+    // The size check is the schema's only custom issue
+    const tooLarge = item.error.issues.find((issue) => issue.code === "custom");
+    return Response.json(
+      { error: tooLarge ? tooLarge.message : "Expected { parentId, message } with a message id" },
+      { status: tooLarge ? 413 : 400 },
+    );
+  }
+  const thread = await appendMessage(id, item.data);
+  if (!thread) {
+    return Response.json({ error: `Thread "${id}" not found` }, { status: 404 });
+  }
+  return Response.json(threadSummary(thread));
+}
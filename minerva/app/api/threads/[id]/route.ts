@@ -0,0 +1,37 @@
+import { deleteThread, getThread, updateThread } from "@/lib/thread-store";
+import { threadSummary, threadUpdateSchema } from "@/lib/threads";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) => Response.json({ error: `Thread "${id}" not found` }, { status: 404 });
+
+// The whole thread, messages included
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const thread = await getThread(id);
+  return thread ? Response.json(thread) : notFound(id);
+}
+
+// Rename with { title }, archive or restore with { status }
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "Request body is not valid JSON" }, { status: 400 });
+  }
+  const update = threadUpdateSchema.safeParse(body);
+  if (!update.success) {
+    return Response.json({ error: "Expected { title } or { status: \"regular\" | \"archived\" }" }, { status: 400 });
+  }
+  const thread = await updateThread(id, update.data);
+  return thread ? Response.json(threadSummary(thread)) : notFound(id);
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  return (await deleteThread(id)) ? new Response(null, { status: 204 }) : notFound(id);
+}
@@ -0,0 +1,57 @@
+import { generateText } from "ai";
+
+import { chatErrorResponse } from "@/lib/chat-errors";
+import { modelForRequest, requestIssues } from "@/lib/chat-request";
+import { recordFailure, recordRequest, recordTokens } from "@/lib/chat-usage";
+import { getThread, updateThread } from "@/lib/thread-store";
+import { cleanTitle, fallbackTitle, titlePrompt, titleRequestSchema } from "@/lib/threads";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// Counted with the Assistant page's chat, which sends no session id either
+const USAGE_SESSION = "anonymous";
+
+// Title a thread from its first exchange and store the title. If the model
+// fails the thread is still titled, from the start of the first question.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return chatErrorResponse(400, { error: "Request body is not valid JSON", code: "invalid_json" });
+  }
+  const parsed = titleRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return chatErrorResponse(400, {
+      error: "Invalid title request",
+      code: "invalid_request",
+      issues: requestIssues(parsed.error),
+    });
+  }
+  if (!(await getThread(id))) {
+    return Response.json({ error: `Thread "${id}" not found` }, { status: 404 });
+  }
+  const { exchange, model: requestedModel } = parsed.data;
+
+  const model = modelForRequest(requestedModel);
+  if (model instanceof Response) return model;
+
+  let title = "";
+  recordRequest(USAGE_SESSION);
+  try {
+    const { text, usage } = await generateText({ model, prompt: titlePrompt(exchange), maxTokens: 32 });
+    recordTokens(USAGE_SESSION, usage);
+    title = cleanTitle(text);
+  } catch (error) {
+    recordFailure(USAGE_SESSION);
+    console.error(`Titling thread ${id} failed:`, error);
+  }
+
+  const thread = await updateThread(id, { title: title || fallbackTitle(exchange) });
+  if (!thread) {
+    return Response.json({ error: `Thread "${id}" not found` }, { status: 404 });
+  }
+  return Response.json({ title: thread.title });
+}
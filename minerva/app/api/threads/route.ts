@@ -0,0 +1,14 @@
+import { createThread, listThreads } from "@/lib/thread-store";
+import { threadSummary } from "@/lib/threads";
+
+export const runtime = "nodejs";
+
+// Every stored thread, archived ones included
+export async function GET() {
+  return Response.json({ threads: await listThreads() });
+}
+
+// Start an empty thread; the runtime does this on a thread's first message
+export async function POST() {
+  return Response.json(threadSummary(await createThread()), { status: 201 });
+}
@@ -1,13 +1,25 @@
 "use client";
 
-import { AssistantRuntimeProvider } from "@assistant-ui/react";
+import { AssistantRuntimeProvider, unstable_useRemoteThreadListRuntime as useRemoteThreadListRuntime } from "@assistant-ui/react";
 import { useChatRuntime } from "@assistant-ui/react-ai-sdk";
 import { Thread } from "@/components/assistant-ui/thread";
 import { ThreadList } from "@/components/assistant-ui/thread-list";
+import { useThreadHistory } from "@/hooks/use-thread-history";
+import { threadListAdapter } from "@/lib/thread-api";
 
-export const Assistant = () => {
-  const runtime = useChatRuntime({
+// One chat runtime per open thread, loading and saving through /api/threads
+const useThreadRuntime = () => {
+  const history = useThreadHistory();
+  return useChatRuntime({
     api: "/api/chat",
+    adapters: { history },
+  });
+};
+
+export const Assistant = () => {
+  const runtime = useRemoteThreadListRuntime({
+    runtimeHook: useThreadRuntime,
+    adapter: threadListAdapter,
   });
 
   return (
@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+
+import { Assistant } from "@/app/assistant";
+
+export const metadata: Metadata = {
+  title: "MINERVA Assistant",
+};
+
+export default function AssistantPage() {
+  return <Assistant />;
+}
@@ -13,8 +13,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "assistant-ui App",
-  description: "Generated by create-assistant-ui",
+  title: "MINERVA",
+  description: "Mission replay, field-unit transmission log and influence analysis",
 };
 
 export default function RootLayout({
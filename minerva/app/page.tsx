@@ -1,7 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
-import YouTube from "react-youtube";
+import React, { useState, useEffect, useMemo, useReducer, useRef } from "react";
 import { AssistantRuntimeProvider } from "@assistant-ui/react";
 import { useChatRuntime } from "@assistant-ui/react-ai-sdk";
 import {
@@ -9,39 +8,153 @@ import {
   SimpleImageAttachmentAdapter,
   SimpleTextAttachmentAdapter,
 } from "@assistant-ui/react";
-
-// Define our own simple chat messages as a fallback
-type SimpleChatMessage = {
-  id: string;
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-};
-
-// Define WebSocket message type
-type WebSocketMessage = {
-  id: number;
-  action: string;
-  vehicle: string;
-  callSign: string;
-  enemy?: string;
-  explanation: string;
-  category: 'positive' | 'negative' | 'neutral';
-  timestamp: string;
-  influence_analysis: any; // This will hold the influence analysis data
-  action_mapping?: string;
-};
+import { ActionDetail } from "@/components/minerva/action-detail";
+import { AfterActionPanel } from "@/components/minerva/after-action-panel";
+import { ActionLegend } from "@/components/minerva/action-legend";
+import { AssistantPanel } from "@/components/minerva/assistant-panel";
+import { ContactBoard } from "@/components/minerva/contact-board";
+import { FeedSettingsPanel } from "@/components/minerva/feed-settings-panel";
+import { FeedSubscription } from "@/components/minerva/feed-subscription";
+import { InfluenceHeatmap } from "@/components/minerva/influence-heatmap";
+import { InfluenceTrends } from "@/components/minerva/influence-trends";
+import { LogFilterBar } from "@/components/minerva/log-filter-bar";
+import { MissionPicker } from "@/components/minerva/mission-picker";
+import { OrderComposer } from "@/components/minerva/order-composer";
+import { PinnedFrameBanner } from "@/components/minerva/pinned-frame-banner";
+import { QuarantinePanel } from "@/components/minerva/quarantine-panel";
+import { ReplayControls } from "@/components/minerva/replay-controls";
+import { RosterPanel } from "@/components/minerva/roster-panel";
+import { SessionsPanel } from "@/components/minerva/sessions-panel";
+import { TimelineScrubber } from "@/components/minerva/timeline-scrubber";
+import { TransmissionLog } from "@/components/minerva/transmission-log";
+import { VideoPlayer } from "@/components/minerva/video-player";
+import { useAfterAction } from "@/hooks/use-after-action";
+import type { ConnectionStatus } from "@/hooks/use-feed-connection";
+import { useFeedSources } from "@/hooks/use-feed-sources";
+import { useMission } from "@/hooks/use-mission";
+import { useOrders } from "@/hooks/use-orders";
+import { useReplay } from "@/hooks/use-replay";
+import { useSessionRecorder } from "@/hooks/use-session-recorder";
+import { useVideoSync } from "@/hooks/use-video-sync";
+import {
+  actionDescriber,
+  DEFAULT_ACTION_TAXONOMY,
+  mergeTaxonomies,
+  observedMappings,
+} from "@/lib/action-taxonomy";
+import { chatErrorMessage } from "@/lib/chat-errors";
+import { buildContactBoard } from "@/lib/enemy-contacts";
+import type { FeedSource } from "@/lib/feed-sources";
+import { feedReducer, initialFeedState } from "@/lib/feed-state";
+import { formatClockTime } from "@/lib/format";
+import { transmissionsFor } from "@/lib/influence-detail";
+import { latestInfluence, snapshotAsOf } from "@/lib/influence-history";
+import {
+  emptyLogFilter,
+  facetCounts,
+  filterLog,
+  searchTerms,
+  type LogFilter,
+} from "@/lib/log-filter";
+import { timelineOf } from "@/lib/mission-clock";
+import { DEFAULT_VIDEO_SOURCE } from "@/lib/mission-manifest";
+import { routeOrder, withOrders } from "@/lib/orders";
+import type { QuarantinedFrame, Transmission } from "@/lib/protocol";
+import { buildSessionContext, chatSessionContext } from "@/lib/session-query";
+import { parseSessionJsonl } from "@/lib/session-store";
+import { buildRoster, DEFAULT_STALE_AFTER_SECONDS } from "@/lib/unit-roster";
 
 export default function Home() {
-  const [chatInput, setChatInput] = useState('');
-  const [chatMessages, setChatMessages] = useState<SimpleChatMessage[]>([]);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [wsConnected, setWsConnected] = useState(false);
-  const [influenceAnalysis, setInfluenceAnalysis] = useState<any>(null);
+  const [liveState, dispatch] = useReducer(feedReducer, initialFeedState);
+  // A replay folds into its own state, leaving the live log as it was
+  const replay = useReplay();
+  const replaying = replay.loaded;
+  const feedState = replaying ? replay.state : liveState;
+  const feedDispatch = replaying ? replay.dispatch : dispatch;
+  const { influenceHistory, quarantinedFrames } = feedState;
+  // Selecting a transmission pins the influence panel to the analysis it
+  // arrived with, until the operator returns to live
+  const [pinnedKey, setPinnedKey] = useState<string | null>(null);
+  const pinnedEntry = pinnedKey
+    ? feedState.log.find(entry => entry.kind === 'transmission' && entry.key === pinnedKey)
+    : undefined;
+  const pinned = pinnedEntry?.kind === 'transmission' ? pinnedEntry.transmission : null;
+  const pinnedSnapshot = useMemo(
+    () => (pinned && pinnedKey ? snapshotAsOf(feedState.log, pinnedKey) : null),
+    [feedState.log, pinned, pinnedKey]
+  );
+  const pinnedSource = pinnedSnapshot && pinnedSnapshot.key !== pinnedKey
+    ? feedState.log.find(entry => entry.key === pinnedSnapshot.key)
+    : undefined;
+  const influenceAnalysis = pinned ? pinnedSnapshot?.analysis ?? null : latestInfluence(influenceHistory);
+  const [influenceView, setInfluenceView] = useState<'heatmap' | 'trends' | 'legend'>('heatmap');
+  const [detailAction, setDetailAction] = useState<string | null>(null);
+  const missions = useMission();
+  const { mission } = missions;
+  const [videoOffset, setVideoOffset] = useState(0);
+  const timeline = useMemo(() => timelineOf(feedState.log), [feedState.log]);
+  // Video time zero lines up with the first transmission, shifted by the offset
+  const missionClock = useMemo(
+    () => ({ missionStart: timeline[0]?.time ?? 0, videoOffset }),
+    [timeline, videoOffset]
+  );
+  const videoSource = mission?.video ?? DEFAULT_VIDEO_SOURCE;
+  const videoSync = useVideoSync({
+    points: timeline,
+    clock: missionClock,
+    frameRate: videoSource.frameRate,
+  });
+  // The mission's own taxonomy extends or overrides the default one
+  const taxonomy = useMemo(() => mergeTaxonomies(DEFAULT_ACTION_TAXONOMY, mission?.taxonomy), [mission]);
+  const describeAction = useMemo(() => actionDescriber(taxonomy), [taxonomy]);
+  const [logFilter, setLogFilter] = useState<LogFilter>(emptyLogFilter);
+  const orders = useOrders();
+  // Orders are echoed into the live log; a replay shows only the recording
+  const displayedLog = useMemo(
+    () => (replaying ? feedState.log : withOrders(feedState.log, orders.orders)),
+    [feedState.log, orders.orders, replaying]
+  );
+  const filteredLog = useMemo(() => filterLog(displayedLog, logFilter), [displayedLog, logFilter]);
+  const filteredTransmissionCount = filteredLog.filter(entry => entry.kind === 'transmission').length;
+  const logFacets = useMemo(() => facetCounts(feedState.log), [feedState.log]);
+  // Live reports are timed by arrival; a replay is measured on the mission clock
+  const [staleAfter, setStaleAfter] = useState(DEFAULT_STALE_AFTER_SECONDS);
+  const units = useMemo(
+    () => buildRoster(
+      feedState.log,
+      mission?.roster ?? [],
+      replaying ? t => Date.parse(t.timestamp) : t => t.receivedAt,
+    ),
+    [feedState.log, mission, replaying]
+  );
+  const rosterNow = replaying ? replay.missionTime ?? missionClock.missionStart : undefined;
+  const contacts = useMemo(() => buildContactBoard(feedState.log), [feedState.log]);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   
+  // The assistant's tools answer from whatever the dashboard has loaded
+  const sessionContext = useMemo(
+    () => buildSessionContext(
+      feedState.log,
+      mission ? { id: mission.id, name: mission.name, sector: mission.sector } : null,
+      mission?.roster ?? []
+    ),
+    [feedState.log, mission]
+  );
+
+  const chatSession = useMemo(() => chatSessionContext(sessionContext), [sessionContext]);
+
+  const recorder = useSessionRecorder();
+  // Chat usage is counted per recorded or replayed session
+  const chatSessionId = replay.sessionId ?? recorder.recordingId ?? 'live';
+  const [assistantError, setAssistantError] = useState<string | null>(null);
+  const afterAction = useAfterAction();
+
   // Initialize chat runtime
   const runtime = useChatRuntime({
     api: "/api/chat",
+    body: { session: chatSession, sessionId: chatSessionId },
+    onError: error => setAssistantError(chatErrorMessage(error)),
+    onFinish: () => setAssistantError(null),
     adapters: {
       attachments: new CompositeAttachmentAdapter([
         new SimpleImageAttachmentAdapter(),
@@ -57,224 +170,222 @@ export default function Home() {
     }
   };
 
-  // Connect to WebSocket server
-  useEffect(() => {
-    const ws = new WebSocket('ws://localhost:8765');
+  const appendSystemMessage = (content: string) => {
+    dispatch({ type: 'system', content, at: Date.now() });
+  };
 
-    ws.onopen = () => {
-      console.log('Connected to WebSocket server');
-      setWsConnected(true);
-      
-      // Add system message when connected
-      const connectionMessage: SimpleChatMessage = {
-        id: Date.now().toString(),
-        role: 'system',
-        content: 'SECURE CONNECTION ESTABLISHED WITH FIELD UNITS'
-      };
-      setChatMessages(prev => [...prev, connectionMessage]);
-    };
+  const handleFeedMessage = (transmission: Transmission) => {
+    dispatch({ type: 'transmission', transmission });
+  };
 
-    ws.onmessage = (event) => {
-      try {
-        const wsMessage: WebSocketMessage = JSON.parse(event.data);
-        
-        // Store the influence analysis data
-        if (wsMessage.influence_analysis) {
-          setInfluenceAnalysis(wsMessage.influence_analysis);
-        }
-        
-        // Format the timestamp
-        const timestamp = wsMessage.timestamp ? 
-          new Date(wsMessage.timestamp).toLocaleTimeString('en-US', { 
-            hour12: false, 
-            hour: '2-digit', 
-            minute: '2-digit',
-            second: '2-digit' 
-          }) : 
-          getTimestamp();
-        
-        // Format the WebSocket message as a user input
-        const formattedInput = `${wsMessage.action} ${wsMessage.callSign}`;
-        
-        // Add message as if it was user input
-        const userMessage: SimpleChatMessage = {
-          id: `user-${wsMessage.id}`,
-          role: 'user',
-          content: formattedInput
-        };
-        
-        setChatMessages(prev => [...prev, userMessage]);
-        
-        // Now create and add the response message
-        setTimeout(() => {
-          // Format the response content
-          const responseContent = `${wsMessage.action.toUpperCase()} | ${wsMessage.vehicle} ${wsMessage.callSign} | ${wsMessage.explanation} ${wsMessage.enemy ? `| ENEMY: ${wsMessage.enemy}` : ''} | ${timestamp}`;
-          
-          // Add AI response message
-          const aiResponseMessage: SimpleChatMessage = {
-            id: `response-${wsMessage.id}`,
-            role: 'assistant',
-            content: responseContent
-          };
-          
-          setChatMessages(prev => [...prev, aiResponseMessage]);
-        }, 500); // Add a small delay to make it seem like a response
-        
-        // Log detailed message for debugging
-        console.log('Received message:', wsMessage);
-      } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
-      }
-    };
+  const feedSources = useFeedSources();
+  // A mission with a live feed URL replaces the configured feed sources
+  const missionSource: FeedSource | null = mission && 'url' in mission.feed
+    ? { id: mission.id, label: mission.sector, url: mission.feed.url }
+    : null;
+  const liveSources = mission ? (missionSource ? [missionSource] : []) : feedSources.activeSources;
+  const sourceLabel = (id: string) =>
+    (id === missionSource?.id ? missionSource.label : undefined) ??
+    feedSources.sources.find(source => source.id === id)?.label ?? id;
+  const activeFeedLabel = mission
+    ? `${mission.name} / ${mission.sector}`
+    : liveSources.length > 0
+      ? liveSources.map(source => source.label).join(' + ')
+      : 'NO FEED SELECTED';
+  const replaySessionName = replay.name ?? '';
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      const errorMessage: SimpleChatMessage = {
-        id: Date.now().toString(),
-        role: 'system',
-        content: 'ERROR: COMMUNICATION LINK DISRUPTED'
-      };
-      setChatMessages(prev => [...prev, errorMessage]);
-    };
+  const handleQuarantine = (frame: QuarantinedFrame) => {
+    dispatch({ type: 'quarantine', frame });
+  };
 
-    ws.onclose = () => {
-      console.log('Disconnected from WebSocket server');
-      setWsConnected(false);
-      
-      const disconnectMessage: SimpleChatMessage = {
-        id: Date.now().toString(),
-        role: 'system',
-        content: 'ALERT: FIELD UNIT CONNECTION TERMINATED'
-      };
-      setChatMessages(prev => [...prev, disconnectMessage]);
-    };
+  const handleFeedStatusChange = (
+    source: FeedSource,
+    status: ConnectionStatus,
+    previous: ConnectionStatus,
+    resumed: boolean,
+  ) => {
+    if (status === 'open') {
+      appendSystemMessage(resumed
+        ? `SECURE CONNECTION RE-ESTABLISHED WITH ${source.label}, RESUMING TRANSMISSIONS`
+        : `SECURE CONNECTION ESTABLISHED WITH ${source.label}`);
+    } else if (status === 'stale') {
+      appendSystemMessage(`WARNING: NO HEARTBEAT FROM ${source.label}, LINK STALE`);
+    } else if (status === 'reconnecting' && previous === 'open') {
+      appendSystemMessage(`ALERT: ${source.label} CONNECTION TERMINATED, ATTEMPTING RECONNECT`);
+    }
+  };
 
-    return () => {
-      ws.close();
-    };
-  }, []);
+  // Ids after this point are a new run: no longer dropped as repeats, and
+  // keyed apart from the earlier run by the feed reducer
+  const handleFeedSequenceReset = (source: FeedSource, firstId: number, lastId: number) => {
+    appendSystemMessage(
+      `NOTICE: ${source.label} RESTARTED ITS MESSAGE IDS AT #${firstId} (LAST SEEN #${lastId}), ACCEPTING NEW SEQUENCE`
+    );
+  };
 
-  // Scroll chat to bottom when messages change
+  // Open the mission: its own video alignment, title, and recorded session.
+  // A live mission, or none, closes any recording and resumes the live feeds.
+  const { loadFrames, unload: unloadReplay } = replay;
   useEffect(() => {
-    scrollToBottom();
-  }, [chatMessages, runtime.messages]);
+    if (!mission || !('session' in mission.feed)) unloadReplay();
+    if (!mission) return;
+    setVideoOffset(mission.startOffset);
+    document.title = `${mission.name} | MINERVA`;
+    if (!('session' in mission.feed)) return;
 
-  // Handle chat submission - first try with runtime, fallback to simple chat
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // If input is empty, do nothing
-    if (!chatInput.trim()) return;
-    
-    try {
-      // First try the runtime's handleSubmit
-      if (runtime?.handleSubmit) {
-        runtime.setInput && runtime.setInput(chatInput);
-        setChatInput('');
-        runtime.handleSubmit(e);
-      } else {
-        // Fallback to simple chat implementation
-        setIsSubmitting(true);
-        
-        // Add user message immediately
-        const userMessage: SimpleChatMessage = {
-          id: Date.now().toString(),
-          role: 'user',
-          content: chatInput
-        };
-        
-        setChatMessages(prev => [...prev, userMessage]);
-        setChatInput('');
-        
-        // Simulate response with a delay
-        setTimeout(() => {
-          const assistantMessage: SimpleChatMessage = {
-            id: (Date.now() + 1).toString(),
-            role: 'assistant',
-            content: getSimulatedResponse(chatInput)
-          };
-          
-          setChatMessages(prev => [...prev, assistantMessage]);
-          setIsSubmitting(false);
-        }, 1000);
-      }
-    } catch (error) {
-      console.error('Error submitting message:', error);
-      setIsSubmitting(false);
-    }
+    let cancelled = false;
+    fetch(`/api/missions/${encodeURIComponent(mission.id)}/session`)
+      .then(res => (res.ok ? res.text() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then(text => {
+        if (!cancelled) {
+          loadFrames(mission.name, parseSessionJsonl(text, mission.name).frames);
+        }
+      })
+      .catch(error => {
+        if (!cancelled) {
+          appendSystemMessage(`ERROR: UNABLE TO LOAD MISSION RECORDING (${error.message})`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mission, loadFrames, unloadReplay]);
+
+  // Clicking a unit shows only its transmissions; clicking it again shows all
+  const filterToUnit = (callSign: string) => {
+    setLogFilter(filter => ({
+      ...filter,
+      callSigns: filter.callSigns.length === 1 && filter.callSigns[0] === callSign ? [] : [callSign],
+    }));
   };
-  
-  // Simple response simulator for the fallback chat
-  const getSimulatedResponse = (input: string): string => {
-    const lowerInput = input.toLowerCase();
-    
-    if (lowerInput.includes('hello') || lowerInput.includes('hi')) {
-      return 'Hello Commander, how may I assist you today?';
-    }
-    
-    if (lowerInput.includes('status') || lowerInput.includes('update')) {
-      return 'All units are operational. Northern sector is currently engaged with enemy forces. Southern perimeter remains secure.';
-    }
-    
-    if (lowerInput.includes('enemy') || lowerInput.includes('threat')) {
-      return 'Enemy forces detected in grid coordinates A5 through C7. Reconnaissance reports show armored vehicles and infantry units moving towards our eastern flank.';
-    }
-    
-    if (lowerInput.includes('air support') || lowerInput.includes('reinforcement')) {
-      return 'Air support is available. Two F-16 jets are on standby. Reinforcements can be deployed within 20 minutes to your position.';
+
+  const selectTransmission = (key: string) => {
+    setPinnedKey(key);
+    const point = timeline.find(p => p.key === key);
+    if (point) {
+      videoSync.seekToMission(point.time);
     }
-    
-    return 'Acknowledged, Commander. I\'ve logged your message and forwarded it to the appropriate units. Do you need any specific intelligence or support?';
   };
 
-  const videoOpts = {
-    height: '100%',
-    width: '100%',
-    playerVars: {
-      autoplay: 0,
-      controls: 1,
-    },
-  };
+  // Keep the transmission under the video playhead in view
+  useEffect(() => {
+    if (!videoSync.currentKey) return;
+    chatContainerRef.current
+      ?.querySelector(`[data-transmission-key="${CSS.escape(videoSync.currentKey)}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [videoSync.currentKey]);
 
-  // Determine which chat system to use - runtime's messages or our fallback
-  const useRuntimeChat = runtime?.messages && runtime.messages.length > 0;
-  const chatMessagesToShow = useRuntimeChat ? runtime.messages : chatMessages;
-  const isLoading = useRuntimeChat ? runtime.isLoading : isSubmitting;
+  // Scroll chat to bottom when messages change
+  useEffect(() => {
+    scrollToBottom();
+  }, [displayedLog]);
 
   // Format timestamp for military-style
-  const getTimestamp = () => {
-    const now = new Date();
-    return now.toLocaleTimeString('en-US', { 
-      hour12: false, 
-      hour: '2-digit', 
-      minute: '2-digit',
-      second: '2-digit' 
-    });
-  };
+  const getTimestamp = () => formatClockTime(Date.now());
 
   return (
     <AssistantRuntimeProvider runtime={runtime}>
+      {missions.choosing && (
+        <MissionPicker
+          missions={missions.missions}
+          error={missions.error}
+          onSelect={missions.select}
+          onCancel={missions.picking ? missions.closePicker : undefined}
+        />
+      )}
       <div className="min-h-screen bg-zinc-900 text-green-400 flex">
         {/* Left half - War Game Replay */}
         <div className="w-1/2 p-6">
           <div className="border-2 border-green-700 rounded p-4 mb-4 bg-zinc-800">
             <div className="flex justify-between items-center mb-4">
               <h1 className="text-3xl font-mono uppercase tracking-wider">MISSION REPLAY</h1>
+              <button
+                type="button"
+                onClick={missions.openPicker}
+                className="font-mono text-xs px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+              >
+                {mission ? 'CHANGE MISSION' : 'SELECT MISSION'}
+              </button>
             </div>
             <div className="aspect-video rounded overflow-hidden border border-green-700 relative">
               <div className="absolute top-0 left-0 z-10 bg-zinc-800 text-green-400 text-xs font-mono p-1">
-                LIVE FEED: DELTA SECTOR
+                {replaying ? `REPLAY: ${replaySessionName}` : `LIVE FEED: ${activeFeedLabel}`}
               </div>
               <div className="absolute top-0 right-0 z-10 bg-zinc-800 text-green-400 text-xs font-mono p-1">
-                {getTimestamp()} UTC
+                {replaying && replay.missionTime !== null
+                  ? formatClockTime(replay.missionTime)
+                  : getTimestamp()} UTC
               </div>
-              <YouTube
-                videoId="5mSPQlDgzBY"
-                opts={videoOpts}
-                className="w-full h-full"
+              <VideoPlayer source={videoSource} onReady={videoSync.attach} />
+            </div>
+            <TimelineScrubber points={timeline} clock={missionClock} sync={videoSync} />
+            <label className="flex items-center gap-2 mt-2 font-mono text-xs text-green-600">
+              VIDEO OFFSET (S)
+              <input
+                type="number"
+                step={0.1}
+                value={videoOffset}
+                onChange={(e) => setVideoOffset(Number(e.target.value) || 0)}
+                className="w-20 p-1 bg-zinc-900 border border-green-700 rounded text-green-400 focus:outline-none"
+              />
+            </label>
+            <ReplayControls replay={replay} sessions={recorder.sessions} />
+          </div>
+
+          {!mission && (
+            <div className="mb-4">
+              <FeedSettingsPanel
+                sources={feedSources.sources}
+                activeSources={feedSources.activeSources}
+                onToggle={feedSources.toggleSource}
+                onSolo={feedSources.soloSource}
+                onAdd={feedSources.addSource}
+                onRemove={feedSources.removeSource}
               />
             </div>
+          )}
+
+          <div className="mb-4">
+            <AssistantPanel error={assistantError} onDismissError={() => setAssistantError(null)} />
+          </div>
+
+          <div className="mb-4">
+            <RosterPanel
+              units={units}
+              describeAction={describeAction}
+              now={rosterNow}
+              staleAfterSeconds={staleAfter}
+              onStaleAfterChange={setStaleAfter}
+              selectedCallSigns={logFilter.callSigns}
+              onSelectUnit={filterToUnit}
+            />
+          </div>
+
+          <div className="mb-4">
+            <ContactBoard
+              contacts={contacts}
+              missionStart={missionClock.missionStart}
+              missionEnd={timeline[timeline.length - 1]?.time ?? missionClock.missionStart}
+              onSelectEvent={selectTransmission}
+            />
+          </div>
+
+          <div className="mb-4">
+            <SessionsPanel recorder={recorder} />
           </div>
+
+          <div className="mb-4">
+            <AfterActionPanel
+              afterAction={afterAction}
+              transmissionCount={sessionContext.transmissions.length}
+              onGenerate={() => afterAction.generate(sessionContext, chatSessionId)}
+            />
+          </div>
+
+          <QuarantinePanel
+            frames={quarantinedFrames}
+            onClear={() => feedDispatch({ type: 'clearQuarantine' })}
+          />
         </div>
         
         {/* Right half - Command Chat and Heatmap */}
@@ -282,40 +393,53 @@ export default function Home() {
           {/* Command Chat Interface */}
           <div className="mb-4 flex-1 border-2 border-green-700 rounded p-4 bg-zinc-800">
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-2xl font-mono uppercase tracking-wider">COMMAND UPLINK</h2>
-              <div className="flex space-x-1 items-center">
-                <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
+              <div>
+                <h2 className="text-2xl font-mono uppercase tracking-wider">COMMAND UPLINK</h2>
+                <div className="text-xs font-mono text-green-600">
+                  {replaying ? `REPLAY: ${replaySessionName}` : `ACTIVE FEED: ${activeFeedLabel}`}
+                </div>
+              </div>
+              <div className="flex flex-col items-end space-y-1">
+                {/* Live feeds are suspended while a recording is replayed */}
+                {!replaying && liveSources.map(source => (
+                  <FeedSubscription
+                    key={source.id}
+                    source={source}
+                    onTransmission={handleFeedMessage}
+                    onQuarantine={handleQuarantine}
+                    onRecord={recorder.record}
+                    onAck={orders.acknowledge}
+                    onLink={orders.setLink}
+                    onStatusChange={handleFeedStatusChange}
+                    onSequenceReset={handleFeedSequenceReset}
+                  />
+                ))}
               </div>
             </div>
+            <LogFilterBar
+              filter={logFilter}
+              counts={logFacets}
+              matchCount={filteredTransmissionCount}
+              totalCount={timeline.length}
+              describeAction={describeAction}
+              onChange={setLogFilter}
+            />
             <div className="h-[50vh] flex flex-col border border-green-700 bg-zinc-900 rounded">
               <div 
                 ref={chatContainerRef} 
                 className="flex-1 overflow-y-auto p-3 font-mono text-sm"
               >
-                {chatMessagesToShow && chatMessagesToShow.length > 0 ? (
-                  // @ts-ignore - Ignoring type issues as we're handling both runtime messages and fallback
-                  chatMessagesToShow.map((message: any) => (
-                    <div key={message.id} className="mb-3">
-                      <div className="text-xs text-green-600 mb-1">
-                        {message.role === 'user' 
-                          ? '► FIELD COMMANDER [OUTGOING]' 
-                          : '◄ COMMAND CENTER [INCOMING]'
-                        } | {getTimestamp()}
-                      </div>
-                      <div className={`p-2 rounded ${
-                        message.role === 'user' 
-                          ? 'bg-green-900 bg-opacity-20 border border-green-800' 
-                          : 'bg-zinc-800 border border-green-900'
-                      }`}>
-                        {message.content}
-                        {useRuntimeChat && message.attachments?.map((attachment: any, index: number) => (
-                          <div key={index} className="mt-1 border-t border-green-800 pt-1">
-                            {runtime.renderAttachment && runtime.renderAttachment(attachment)}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  ))
+                {displayedLog.length > 0 ? (
+                  <TransmissionLog
+                    entries={filteredLog}
+                    sourceLabel={sourceLabel}
+                    showSource={liveSources.length > 1 || replaying}
+                    highlight={searchTerms(logFilter.text)}
+                    describeAction={describeAction}
+                    selectedKey={pinned ? pinnedKey : videoSync.currentKey}
+                    onSelect={selectTransmission}
+                    onRetryOrder={orders.retry}
+                  />
                 ) : (
                   <div className="text-green-500 text-center py-8 opacity-75">
                     [ AWAITING TRANSMISSION ]
@@ -323,51 +447,61 @@ export default function Home() {
                 )}
               </div>
               
-              {/* Input form commented out - only receiving WebSocket messages
-              <form onSubmit={handleSubmit} className="flex p-2 border-t border-green-700 bg-zinc-800">
-                <input
-                  type="text"
-                  value={useRuntimeChat ? (runtime.input || '') : chatInput}
-                  onChange={(e) => {
-                    if (useRuntimeChat && runtime.setInput) {
-                      runtime.setInput(e.target.value);
-                    } else {
-                      setChatInput(e.target.value);
-                    }
-                  }}
-                  placeholder="Enter message for Command..."
-                  className="flex-1 p-2 bg-zinc-900 border border-green-700 rounded-l text-green-400 font-mono placeholder:text-green-600 focus:outline-none focus:ring-1 focus:ring-green-500"
-                  disabled={isLoading}
-                />
-                <button 
-                  type="submit" 
-                  className="px-4 py-2 bg-green-800 text-black font-mono uppercase tracking-wide rounded-r hover:bg-green-600 focus:outline-none disabled:bg-zinc-700 disabled:text-zinc-500 transition-colors"
-                  disabled={isLoading || (useRuntimeChat ? !(runtime.input && runtime.input.trim()) : !chatInput.trim())}
-                >
-                  {isLoading ? 'SENDING...' : 'TRANSMIT'}
-                </button>
-              </form>
-              */}
-              <div className="p-2 border-t border-green-700 bg-zinc-800 text-center">
-                <div className="text-green-500 font-mono text-sm">
-                  [ INCOMING TRANSMISSIONS ONLY ]
-                </div>
-              </div>
+              <OrderComposer
+                targets={units.map(unit => unit.callSign)}
+                disabledReason={
+                  replaying
+                    ? 'REPLAY: UPLINK DISABLED'
+                    : orders.linked.length === 0 ? 'NO OPEN LINK' : null
+                }
+                onSend={draft => orders.issue(draft, routeOrder(feedState.log, draft.target, orders.linked))}
+              />
             </div>
           </div>
 
-          {/* Influence Analysis (formerly Heatmap) */}
+          {/* Influence Analysis */}
           <div className="flex-1 border-2 border-green-700 rounded p-4 bg-zinc-800">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-2xl font-mono uppercase tracking-wider">INFLUENCE ANALYSIS</h2>
-              <div className="font-mono text-xs px-2 py-1 bg-zinc-700 rounded border border-green-700">
-                REFRESHED: {getTimestamp()}
+              <div className="flex gap-2 font-mono text-xs">
+                {(['heatmap', 'trends', 'legend'] as const).map(view => (
+                  <button
+                    key={view}
+                    type="button"
+                    onClick={() => setInfluenceView(view)}
+                    className={`px-2 py-1 rounded border border-green-700 uppercase ${
+                      influenceView === view ? 'bg-green-800 text-black' : 'bg-zinc-700 hover:bg-zinc-600'
+                    }`}
+                  >
+                    {view}
+                  </button>
+                ))}
+                <div className="px-2 py-1 bg-zinc-700 rounded border border-green-700">
+                  {pinned ? 'PINNED' : `REFRESHED: ${getTimestamp()}`}
+                </div>
               </div>
             </div>
+            {pinned && (
+              <PinnedFrameBanner
+                transmission={pinned}
+                actionLabel={describeAction(pinned.action).label}
+                inheritedFrom={pinnedSource?.kind === 'transmission' ? pinnedSource.transmission : null}
+                hasAnalysis={pinnedSnapshot !== null}
+                onReturnToLive={() => setPinnedKey(null)}
+              />
+            )}
             <div className="h-[25vh] bg-zinc-900 rounded border border-green-700 p-4 relative overflow-auto">
               <div className="absolute top-2 left-2 text-xs font-mono text-green-600">ANALYSIS TYPE: STRATEGIC INFLUENCE</div>
               
-              {!influenceAnalysis ? (
+              {influenceView === 'legend' ? (
+                <div className="pt-4">
+                  <ActionLegend
+                    taxonomy={taxonomy}
+                    describeAction={describeAction}
+                    observed={observedMappings(feedState.log)}
+                  />
+                </div>
+              ) : !influenceAnalysis ? (
                 <div className="flex flex-col items-center justify-center h-full">
                   <p className="text-green-500 font-mono tracking-wide mb-2">AWAITING DATA TRANSMISSION...</p>
                   
@@ -379,79 +513,29 @@ export default function Home() {
                     <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[40%] h-[40%] border border-green-500 rounded-full opacity-40"></div>
                   </div>
                 </div>
+              ) : influenceView === 'trends' ? (
+                <div className="pt-4">
+                  <InfluenceTrends history={influenceHistory} describeAction={describeAction} />
+                </div>
               ) : (
-                <div className="grid grid-cols-2 gap-4 h-full">
-                  {/* Top Influencers */}
-                  <div className="border border-green-700 bg-zinc-800 bg-opacity-50 p-2 rounded">
-                    <h3 className="text-sm font-mono text-green-400 mb-2">TOP INFLUENCE FACTORS</h3>
-                    <ul className="text-xs font-mono space-y-1">
-                      {Object.keys(influenceAnalysis).map((action, idx) => (
-                        <li key={idx} className="flex justify-between">
-                          <span>{action}:</span>
-                          <span className="text-green-300">
-                            {influenceAnalysis[action]?.top_3_overall?.features?.slice(0, 3).join(', ') || 'N/A'}
-                          </span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                  
-                  {/* Entity Breakdown */}
-                  <div className="border border-green-700 bg-zinc-800 bg-opacity-50 p-2 rounded">
-                    <h3 className="text-sm font-mono text-green-400 mb-2">ENTITY INFLUENCE SCORES</h3>
-                    <ul className="text-xs font-mono space-y-1">
-                      {Object.keys(influenceAnalysis).slice(0, 3).map((action, idx) => (
-                        <li key={idx} className="flex justify-between">
-                          <span>{action}:</span>
-                          <span className="text-green-300">
-                            {influenceAnalysis[action]?.entities?.top_3?.scores
-                              ?.map((score: number) => score.toFixed(2))
-                              .join(', ') || 'N/A'}
-                          </span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                  
-                  {/* Visibility Analysis */}
-                  <div className="border border-green-700 bg-zinc-800 bg-opacity-50 p-2 rounded">
-                    <h3 className="text-sm font-mono text-green-400 mb-2">VISIBILITY METRICS</h3>
-                    <ul className="text-xs font-mono space-y-1">
-                      {Object.keys(influenceAnalysis).slice(0, 1).map((action, idx) => (
-                        <React.Fragment key={idx}>
-                          <li className="flex justify-between">
-                            <span>Legacy:</span>
-                            <span className="text-green-300">
-                              {influenceAnalysis[action]?.visibility?.legacy?.toFixed(2) || 'N/A'}
-                            </span>
-                          </li>
-                          <li className="flex justify-between">
-                            <span>Dynasty:</span>
-                            <span className="text-green-300">
-                              {influenceAnalysis[action]?.visibility?.dynasty?.toFixed(2) || 'N/A'}
-                            </span>
-                          </li>
-                        </React.Fragment>
-                      ))}
-                    </ul>
-                  </div>
-                  
-                  {/* Mission Impact */}
-                  <div className="border border-green-700 bg-zinc-800 bg-opacity-50 p-2 rounded">
-                    <h3 className="text-sm font-mono text-green-400 mb-2">MISSION IMPACT</h3>
-                    <ul className="text-xs font-mono space-y-1">
-                      {Object.keys(influenceAnalysis).slice(0, 3).map((action, idx) => (
-                        <li key={idx} className="flex justify-between">
-                          <span>{action}:</span>
-                          <span className="text-green-300">
-                            {influenceAnalysis[action]?.mission?.top_3?.scores
-                              ?.map((score: number) => score.toFixed(2))
-                              .join(', ') || 'N/A'}
-                          </span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
+                <div className="pt-4">
+                  {detailAction ? (
+                    <ActionDetail
+                      action={detailAction}
+                      describeAction={describeAction}
+                      influence={influenceAnalysis[detailAction]}
+                      transmissions={transmissionsFor(feedState.log, detailAction)}
+                      onSelectTransmission={selectTransmission}
+                      onClose={() => setDetailAction(null)}
+                    />
+                  ) : (
+                    <InfluenceHeatmap
+                      analysis={influenceAnalysis}
+                      highlightAction={pinned?.action}
+                      describeAction={describeAction}
+                      onSelectAction={setDetailAction}
+                    />
+                  )}
                 </div>
               )}
             </div>
@@ -1,18 +1,23 @@
-import type { FC } from "react";
+import { useRef, useState, type FC } from "react";
 import {
   ThreadListItemPrimitive,
   ThreadListPrimitive,
+  useThreadListItem,
+  useThreadListItemRuntime,
 } from "@assistant-ui/react";
-import { ArchiveIcon, PlusIcon } from "lucide-react";
+import { ArchiveIcon, ArchiveRestoreIcon, ChevronDownIcon, ChevronRightIcon, EyeIcon, PencilIcon, PlusIcon } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import { loadThread } from "@/lib/thread-api";
+import { threadTranscript, TITLE_MAX_LENGTH, type TranscriptLine } from "@/lib/threads";
 
 export const ThreadList: FC = () => {
   return (
     <ThreadListPrimitive.Root className="flex flex-col items-stretch gap-1.5">
       <ThreadListNew />
       <ThreadListItems />
+      <ThreadListArchived />
     </ThreadListPrimitive.Root>
   );
 };
@@ -33,11 +38,26 @@ const ThreadListItems: FC = () => {
 };
 
 const ThreadListItem: FC = () => {
+  const [renaming, setRenaming] = useState(false);
   return (
     <ThreadListItemPrimitive.Root className="data-[active]:bg-muted hover:bg-muted focus-visible:bg-muted focus-visible:ring-ring flex items-center gap-2 rounded-lg transition-all focus-visible:outline-none focus-visible:ring-2">
-      <ThreadListItemPrimitive.Trigger className="flex-grow px-3 py-2 text-start">
-        <ThreadListItemTitle />
-      </ThreadListItemPrimitive.Trigger>
+      {renaming ? (
+        <ThreadListItemRename onDone={() => setRenaming(false)} />
+      ) : (
+        <>
+          <ThreadListItemPrimitive.Trigger className="flex-grow px-3 py-2 text-start">
+            <ThreadListItemTitle />
+          </ThreadListItemPrimitive.Trigger>
+          <TooltipIconButton
+            className="hover:text-primary text-foreground size-4 p-0"
+            variant="ghost"
+            tooltip="Rename thread"
+            onClick={() => setRenaming(true)}
+          >
+            <PencilIcon />
+          </TooltipIconButton>
+        </>
+      )}
       <ThreadListItemArchive />
     </ThreadListItemPrimitive.Root>
   );
@@ -51,6 +71,39 @@ const ThreadListItemTitle: FC = () => {
   );
 };
 
+// Enter or leaving the field saves, Escape cancels
+const ThreadListItemRename: FC<{ onDone: () => void }> = ({ onDone }) => {
+  const threadListItem = useThreadListItemRuntime();
+  const title = useThreadListItem((item) => item.title);
+  const cancelled = useRef(false);
+
+  const save = (value: string) => {
+    const next = value.trim();
+    if (!cancelled.current && next && next !== title) {
+      threadListItem.rename(next).catch((error) => console.error("Renaming the thread failed:", error));
+    }
+    onDone();
+  };
+
+  return (
+    <input
+      autoFocus
+      defaultValue={title ?? ""}
+      maxLength={TITLE_MAX_LENGTH}
+      aria-label="Thread title"
+      onBlur={(e) => save(e.currentTarget.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+        if (e.key === "Escape") {
+          cancelled.current = true;
+          e.currentTarget.blur();
+        }
+      }}
+      className="bg-background focus-visible:ring-ring min-w-0 flex-grow rounded-md px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2"
+    />
+  );
+};
+
 const ThreadListItemArchive: FC = () => {
   return (
     <ThreadListItemPrimitive.Archive asChild>
@@ -64,3 +117,78 @@ const ThreadListItemArchive: FC = () => {
     </ThreadListItemPrimitive.Archive>
   );
 };
+
+const ThreadListArchived: FC = () => {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="mt-4 flex flex-col items-stretch gap-1.5">
+      <Button
+        className="text-muted-foreground hover:bg-muted flex items-center justify-start gap-1 rounded-lg px-2.5 py-2 text-start text-xs"
+        variant="ghost"
+        onClick={() => setOpen(!open)}
+      >
+        {open ? <ChevronDownIcon /> : <ChevronRightIcon />}
+        Archived
+      </Button>
+      {open && <ThreadListPrimitive.Items archived components={{ ThreadListItem: ArchivedThreadListItem }} />}
+    </div>
+  );
+};
+
+// Opening an archived thread would restore it, so it is read here instead
+const ArchivedThreadListItem: FC = () => {
+  const remoteId = useThreadListItem((item) => item.remoteId);
+  const [transcript, setTranscript] = useState<TranscriptLine[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleTranscript = () => {
+    if (transcript || error) {
+      setTranscript(null);
+      setError(null);
+      return;
+    }
+    if (!remoteId) return;
+    loadThread(remoteId)
+      .then((thread) => setTranscript(threadTranscript(thread)))
+      .catch((reason) => setError(reason instanceof Error ? reason.message : "Could not load the thread"));
+  };
+
+  return (
+    <ThreadListItemPrimitive.Root className="hover:bg-muted flex flex-col rounded-lg transition-all">
+      <div className="flex items-center gap-2">
+        <p className="text-muted-foreground flex-grow px-3 py-2 text-sm">
+          <ThreadListItemPrimitive.Title fallback="New Chat" />
+        </p>
+        <TooltipIconButton
+          className="hover:text-primary text-foreground size-4 p-0"
+          variant="ghost"
+          tooltip={transcript ? "Hide messages" : "View messages"}
+          onClick={toggleTranscript}
+        >
+          <EyeIcon />
+        </TooltipIconButton>
+        <ThreadListItemPrimitive.Unarchive asChild>
+          <TooltipIconButton
+            className="hover:text-primary text-foreground mr-3 size-4 p-0"
+            variant="ghost"
+            tooltip="Restore thread"
+          >
+            <ArchiveRestoreIcon />
+          </TooltipIconButton>
+        </ThreadListItemPrimitive.Unarchive>
+      </div>
+      {error && <p className="text-destructive px-3 pb-2 text-xs">{error}</p>}
+      {transcript && (
+        <div className="flex max-h-64 flex-col gap-2 overflow-y-auto px-3 pb-2 text-xs">
+          {transcript.length === 0 && <p className="text-muted-foreground">No messages</p>}
+          {transcript.map((line, idx) => (
+            <p key={idx} className="whitespace-pre-wrap break-words">
+              <span className="font-semibold">{line.role === "user" ? "You" : "Assistant"}: </span>
+              {line.text}
+            </p>
+          ))}
+        </div>
+      )}
+    </ThreadListItemPrimitive.Root>
+  );
+};
@@ -0,0 +1,143 @@
+"use client";
+
+import type { FC } from "react";
+
+import type { DescribeAction } from "@/lib/action-taxonomy";
+import { formatClockTime } from "@/lib/format";
+import { rankedEntries } from "@/lib/influence-heatmap";
+import { otherFieldsOf, rankingsOf, type Ranking } from "@/lib/influence-detail";
+import type { ActionInfluence, Category, Transmission } from "@/lib/protocol";
+
+type ActionDetailProps = {
+  action: string;
+  describeAction: DescribeAction;
+  influence: ActionInfluence | undefined;
+  transmissions: { key: string; transmission: Transmission }[];
+  onSelectTransmission: (key: string) => void;
+  onClose: () => void;
+};
+
+const CATEGORY_TEXT: Record<Category, string> = {
+  positive: "text-green-400",
+  negative: "text-red-400",
+  neutral: "text-zinc-300",
+};
+
+const RankingTable: FC<{ title: string; rankings: Ranking[] }> = ({ title, rankings }) => (
+  <div className="border border-green-700 bg-zinc-800 p-2 rounded">
+    <h3 className="text-green-400 mb-1">{title}</h3>
+    {rankings.length === 0 && <div className="text-green-700">N/A</div>}
+    {rankings.map((ranking) => (
+      <div key={ranking.name} className="mb-1">
+        {rankings.length > 1 && <div className="text-green-700">{ranking.name.toUpperCase()}</div>}
+        <ol className="space-y-0.5">
+          {ranking.entries.map((entry, idx) => (
+            <li key={`${entry.label}-${idx}`} className="flex items-center gap-2">
+              <span className="flex-1 truncate" title={entry.label}>
+                {idx + 1}. {entry.label}
+              </span>
+              {entry.score !== null && (
+                <>
+                  <span className="w-16 h-1.5 bg-zinc-900 rounded">
+                    <span
+                      className="block h-full bg-green-500 rounded"
+                      style={{ width: `${Math.min(100, Math.max(0, entry.score * 100))}%` }}
+                    />
+                  </span>
+                  <span className="w-12 text-right text-green-300">{entry.score.toFixed(3)}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    ))}
+  </div>
+);
+
+// Everything the latest payload says about one action, and what triggered it
+export const ActionDetail: FC<ActionDetailProps> = ({
+  action,
+  describeAction,
+  influence,
+  transmissions,
+  onSelectTransmission,
+  onClose,
+}) => {
+  const otherFields = influence ? otherFieldsOf(influence) : {};
+  const descriptor = describeAction(action);
+
+  return (
+    <div className="font-mono text-xs">
+      <div className="flex justify-between items-center mb-2">
+        <div>
+          <h3 className="text-lg text-green-300 tracking-wider">
+            {descriptor.icon} {descriptor.label}
+          </h3>
+          <div className="text-green-600">
+            {descriptor.group.label} | {action}
+            {descriptor.codes.length > 0 && ` | CODES: ${descriptor.codes.join(", ")}`}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+        >
+          ◄ ALL ACTIONS
+        </button>
+      </div>
+      {!influence ? (
+        <div className="text-green-600 mb-2">[ NOT IN THE CURRENT ANALYSIS ]</div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <RankingTable
+            title="FEATURES"
+            rankings={[{ name: "top_3_overall", entries: rankedEntries(influence.top_3_overall) }]}
+          />
+          <div className="border border-green-700 bg-zinc-800 p-2 rounded">
+            <h3 className="text-green-400 mb-1">VISIBILITY</h3>
+            <div className="flex justify-between">
+              <span>Legacy:</span>
+              <span className="text-green-300">{influence.visibility.legacy.toFixed(3)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Dynasty:</span>
+              <span className="text-green-300">{influence.visibility.dynasty.toFixed(3)}</span>
+            </div>
+          </div>
+          <RankingTable title="ENTITIES" rankings={rankingsOf(influence.entities)} />
+          <RankingTable title="MISSION" rankings={rankingsOf(influence.mission)} />
+          {Object.keys(otherFields).length > 0 && (
+            <div className="col-span-2 border border-green-700 bg-zinc-800 p-2 rounded">
+              <h3 className="text-green-400 mb-1">OTHER FIELDS</h3>
+              <pre className="text-green-300 whitespace-pre-wrap break-all">{JSON.stringify(otherFields, null, 2)}</pre>
+            </div>
+          )}
+        </div>
+      )}
+      <div className="border border-green-700 bg-zinc-800 p-2 rounded">
+        <h3 className="text-green-400 mb-1">TRANSMISSIONS [{transmissions.length}]</h3>
+        {transmissions.length === 0 ? (
+          <div className="text-green-700">[ NO UNIT HAS REPORTED THIS ACTION ]</div>
+        ) : (
+          <ul className="space-y-0.5">
+            {transmissions.map(({ key, transmission }) => (
+              <li key={key}>
+                <button
+                  type="button"
+                  onClick={() => onSelectTransmission(key)}
+                  className="w-full flex gap-2 text-left hover:bg-zinc-700"
+                >
+                  <span className="text-green-600">{formatClockTime(transmission.timestamp)}</span>
+                  <span className="text-green-300">{transmission.callSign}</span>
+                  <span className={`truncate ${CATEGORY_TEXT[transmission.category]}`}>{transmission.explanation}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+"use client";
+
+import type { FC } from "react";
+
+import { actionKey, OTHER_GROUP, type ActionTaxonomy, type DescribeAction } from "@/lib/action-taxonomy";
+import type { Category } from "@/lib/protocol";
+
+type ActionLegendProps = {
+  taxonomy: ActionTaxonomy;
+  describeAction: DescribeAction;
+  // action_mapping codes seen on the feed, with counts, per action
+  observed: Map<string, Map<string, number>>;
+};
+
+const CATEGORY_TEXT: Record<Category, string> = {
+  positive: "text-green-400",
+  negative: "text-red-400",
+  neutral: "text-zinc-300",
+};
+
+// How simulator action codes (action_mapping) land in the taxonomy
+export const ActionLegend: FC<ActionLegendProps> = ({ taxonomy, describeAction, observed }) => {
+  const unknown = [...observed.keys()].filter((action) => !describeAction(action).known);
+  const groups = [
+    ...taxonomy.groups.map((group) => ({
+      group,
+      actions: taxonomy.actions.filter((type) => type.group === group.id).map((type) => type.action),
+    })),
+    // Actions the taxonomy doesn't know, and known ones in a group it doesn't define
+    {
+      group: OTHER_GROUP,
+      actions: [
+        ...taxonomy.actions
+          .filter((type) => !taxonomy.groups.some((group) => group.id === type.group))
+          .map((type) => type.action),
+        ...unknown,
+      ],
+    },
+  ].filter(({ actions }) => actions.length > 0);
+
+  return (
+    <div className="font-mono text-xs space-y-2">
+      {groups.map(({ group, actions }) => (
+        <div key={group.id}>
+          <h3 className="text-green-400 border-b border-green-800 mb-1">
+            {group.icon} {group.label}
+          </h3>
+          <table className="w-full">
+            <tbody>
+              {actions.map((action) => {
+                const descriptor = describeAction(action);
+                const seen = observed.get(actionKey(action)) ?? new Map<string, number>();
+                const codes = [...new Set([...descriptor.codes, ...seen.keys()])];
+                return (
+                  <tr key={action} className="align-top">
+                    <td className="w-40 py-0.5">
+                      {descriptor.icon} {descriptor.label}
+                      <div className="text-green-700">{action}</div>
+                    </td>
+                    <td className={`w-20 uppercase ${descriptor.category ? CATEGORY_TEXT[descriptor.category] : "text-green-700"}`}>
+                      {descriptor.category ?? "—"}
+                    </td>
+                    <td>
+                      {codes.length === 0 && <span className="text-green-700">NO CODES</span>}
+                      {codes.map((code) => {
+                        const mapped = descriptor.codes.includes(code);
+                        return (
+                          <span
+                            key={code}
+                            title={mapped ? undefined : "Seen on the feed but not listed in the taxonomy"}
+                            className={`inline-block mr-1 mb-0.5 px-1 rounded border ${
+                              mapped ? "border-green-800 text-green-300" : "border-amber-500 text-amber-300"
+                            }`}
+                          >
+                            {code}
+                            {seen.has(code) && <span className="text-green-600"> ×{seen.get(code)}</span>}
+                          </span>
+                        );
+                      })}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+"use client";
+
+import type { FC } from "react";
+
+import type { AfterAction } from "@/hooks/use-after-action";
+import { formatClockTime } from "@/lib/format";
+
+type AfterActionPanelProps = {
+  afterAction: AfterAction;
+  // Transmissions in the loaded session; there is nothing to report without any
+  transmissionCount: number;
+  onGenerate: () => void;
+};
+
+const OUTCOME_STYLES = {
+  positive: "bg-green-600",
+  negative: "bg-red-600",
+  neutral: "bg-zinc-500",
+} as const;
+
+const buttonClass = "px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600 disabled:opacity-50";
+
+export const AfterActionPanel: FC<AfterActionPanelProps> = ({ afterAction, transmissionCount, onGenerate }) => {
+  const { report, generating, error } = afterAction;
+  const stats = report?.stats;
+
+  return (
+    <div className="border-2 border-green-700 rounded p-4 bg-zinc-800 font-mono">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg uppercase tracking-wider">AFTER-ACTION REPORT</h2>
+        <button
+          type="button"
+          onClick={onGenerate}
+          disabled={generating || transmissionCount === 0}
+          title={transmissionCount === 0 ? "No transmissions loaded" : "Build the report from the loaded session"}
+          className={`text-xs ${buttonClass}`}
+        >
+          {generating ? "DRAFTING..." : report ? "REGENERATE" : "GENERATE"}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+      {!report && !error && (
+        <p className="text-xs text-green-600">
+          {transmissionCount === 0
+            ? "LOAD OR RECORD A SESSION TO REPORT ON"
+            : `${transmissionCount} TRANSMISSIONS READY FOR REVIEW`}
+        </p>
+      )}
+
+      {report && stats && (
+        <div className="text-xs space-y-2">
+          <div className="text-green-300">{report.title.toUpperCase()}</div>
+          <div className="text-green-600">
+            {formatClockTime(stats.start ?? "")} – {formatClockTime(stats.end ?? "")} UTC | {stats.durationMinutes} MIN |{" "}
+            {stats.transmissionCount} TX
+          </div>
+
+          <div>
+            <div className="flex h-2 rounded overflow-hidden bg-zinc-700">
+              {(["positive", "negative", "neutral"] as const).map((category) => (
+                <div
+                  key={category}
+                  className={OUTCOME_STYLES[category]}
+                  style={{ width: `${(stats.outcomes[category] / (stats.transmissionCount || 1)) * 100}%` }}
+                  title={`${category}: ${stats.outcomes[category]}`}
+                />
+              ))}
+            </div>
+            <div className="flex gap-3 mt-1 uppercase">
+              <span className="text-green-400">+{stats.outcomes.positive}</span>
+              <span className="text-red-400">-{stats.outcomes.negative}</span>
+              <span className="text-zinc-400">○{stats.outcomes.neutral}</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-1 text-green-400">
+            <span>UNITS: {stats.units.length}</span>
+            <span>CONTACTS: {stats.contacts.length}</span>
+            <span>KEY EVENTS: {stats.timeline.length}</span>
+            <span>INFLUENCE SHIFTS: {stats.influenceShifts.length}</span>
+          </div>
+
+          {report.narrative ? (
+            <p className="text-green-200 whitespace-pre-wrap max-h-40 overflow-y-auto">{report.narrative.overview}</p>
+          ) : (
+            <p className="text-amber-400">
+              NARRATIVE UNAVAILABLE: {report.narrativeError ?? "no answer from the model"}. STATISTICS ARE COMPLETE.
+            </p>
+          )}
+          <div className="text-green-700">NARRATIVE DRAFTED BY {report.model.toUpperCase()}; REVIEW BEFORE RELEASE</div>
+
+          <div className="flex gap-2">
+            <button type="button" onClick={afterAction.exportMarkdown} className={buttonClass}>
+              EXPORT .MD
+            </button>
+            <button type="button" onClick={afterAction.openPrintable} className={buttonClass}>
+              PRINTABLE
+            </button>
+            <button type="button" onClick={afterAction.clear} className={buttonClass}>
+              CLEAR
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
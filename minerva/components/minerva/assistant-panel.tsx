@@ -0,0 +1,45 @@
+"use client";
+
+import { useState, type FC } from "react";
+
+import { Thread } from "@/components/assistant-ui/thread";
+
+type AssistantPanelProps = {
+  // The last failed request's error, as /api/chat described it
+  error: string | null;
+  onDismissError: () => void;
+};
+
+// The assistant thread, answered from the loaded session's data. Rendered
+// under whichever AssistantRuntimeProvider the page sets up.
+export const AssistantPanel: FC<AssistantPanelProps> = ({ error, onDismissError }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="border-2 border-green-700 rounded p-4 bg-zinc-800">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-mono uppercase tracking-wider">ASK MINERVA</h2>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="font-mono text-xs px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+        >
+          {open ? "HIDE" : "OPEN"}
+        </button>
+      </div>
+      {error && (
+        <div className="mt-2 flex justify-between gap-2 rounded border border-red-600 bg-red-950/60 px-2 py-1 font-mono text-xs text-red-300">
+          <span>UPLINK ERROR: {error}</span>
+          <button type="button" onClick={onDismissError} className="text-red-400 hover:text-red-200">
+            ✕
+          </button>
+        </div>
+      )}
+      {open && (
+        <div className="dark mt-2 h-[60vh] rounded border border-green-700 overflow-hidden text-foreground">
+          <Thread />
+        </div>
+      )}
+    </div>
+  );
+};
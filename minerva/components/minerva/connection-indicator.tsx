@@ -0,0 +1,40 @@
+import type { FC } from "react";
+
+import type { ConnectionStatus } from "@/hooks/use-feed-connection";
+
+type ConnectionIndicatorProps = {
+  status: ConnectionStatus;
+  retryInMs: number | null;
+  onReconnect: () => void;
+};
+
+const STATUS_STYLES: Record<ConnectionStatus, { dot: string; label: string }> = {
+  open: { dot: "bg-green-500 animate-pulse", label: "LINK UP" },
+  connecting: { dot: "bg-amber-400 animate-pulse", label: "CONNECTING" },
+  stale: { dot: "bg-orange-500", label: "LINK STALE" },
+  reconnecting: { dot: "bg-red-500 animate-pulse", label: "RECONNECTING" },
+  closed: { dot: "bg-zinc-500", label: "OFFLINE" },
+};
+
+export const ConnectionIndicator: FC<ConnectionIndicatorProps> = ({ status, retryInMs, onReconnect }) => {
+  const { dot, label } = STATUS_STYLES[status];
+
+  return (
+    <div className="flex space-x-2 items-center font-mono text-xs">
+      <span className={status === "open" ? "text-green-500" : "text-red-400"}>
+        {label}
+        {status === "reconnecting" && retryInMs !== null && ` (${Math.ceil(retryInMs / 1000)}s)`}
+      </span>
+      {status === "reconnecting" && (
+        <button
+          type="button"
+          onClick={onReconnect}
+          className="px-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+        >
+          RETRY NOW
+        </button>
+      )}
+      <div className={`w-2 h-2 rounded-full ${dot}`} title={label}></div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState, type FC } from "react";
+
+import type { EnemyContact } from "@/lib/enemy-contacts";
+import { formatClockTime } from "@/lib/format";
+import type { Category } from "@/lib/protocol";
+
+type ContactBoardProps = {
+  contacts: EnemyContact[];
+  // Mission time span the per-contact timelines are drawn against
+  missionStart: number;
+  missionEnd: number;
+  onSelectEvent: (key: string) => void;
+};
+
+const OUTCOME_STYLES: Record<Category, { tick: string; text: string; label: string }> = {
+  positive: { tick: "bg-green-500", text: "text-green-400", label: "POS" },
+  negative: { tick: "bg-red-500", text: "text-red-400", label: "NEG" },
+  neutral: { tick: "bg-zinc-400", text: "text-zinc-300", label: "NEU" },
+};
+
+const CATEGORIES: Category[] = ["positive", "negative", "neutral"];
+
+export const ContactBoard: FC<ContactBoardProps> = ({ contacts, missionStart, missionEnd, onSelectEvent }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const span = Math.max(missionEnd - missionStart, 1);
+  const percent = (time: number) => `${((time - missionStart) / span) * 100}%`;
+
+  return (
+    <div className="border-2 border-green-700 rounded p-4 bg-zinc-800">
+      <h2 className="text-lg font-mono uppercase tracking-wider mb-2">
+        ENEMY CONTACTS
+        <span className={`ml-2 text-sm ${contacts.length > 0 ? "text-red-400" : "text-green-600"}`}>
+          [{contacts.length}]
+        </span>
+      </h2>
+      {contacts.length === 0 ? (
+        <div className="text-green-600 font-mono text-xs">[ NO CONTACTS REPORTED ]</div>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto space-y-2 font-mono text-xs">
+          {contacts.map((contact) => (
+            <li key={contact.enemy} className="border border-red-900 bg-zinc-900 rounded p-2">
+              <button
+                type="button"
+                onClick={() => setExpanded(expanded === contact.enemy ? null : contact.enemy)}
+                className="w-full text-left"
+              >
+                <div className="flex justify-between">
+                  <span className="text-red-400">
+                    {expanded === contact.enemy ? "▾" : "▸"} {contact.enemy}
+                  </span>
+                  <span className="text-green-600">
+                    {formatClockTime(contact.firstSeen)} – {formatClockTime(contact.lastSeen)} UTC
+                  </span>
+                </div>
+                <div className="flex justify-between mt-1">
+                  <span className="text-green-300">{contact.callSigns.join(", ")}</span>
+                  <span className="space-x-2">
+                    {CATEGORIES.filter((category) => contact.outcomes[category] > 0).map((category) => (
+                      <span key={category} className={OUTCOME_STYLES[category].text}>
+                        {OUTCOME_STYLES[category].label} {contact.outcomes[category]}
+                      </span>
+                    ))}
+                  </span>
+                </div>
+              </button>
+              {/* Where in the mission this contact was reported */}
+              <div className="relative h-3 mt-1 bg-zinc-800 border border-zinc-700 rounded">
+                {contact.events.map((event) => (
+                  <button
+                    key={event.key}
+                    type="button"
+                    title={`${formatClockTime(event.time)} ${event.callSign}: ${event.action}`}
+                    onClick={() => onSelectEvent(event.key)}
+                    className={`absolute top-0 bottom-0 w-1 -ml-0.5 ${OUTCOME_STYLES[event.category].tick}`}
+                    style={{ left: percent(event.time) }}
+                  />
+                ))}
+              </div>
+              {expanded === contact.enemy && (
+                <ol className="mt-2 space-y-1 border-l border-red-900 pl-2">
+                  {contact.events.map((event) => (
+                    <li key={event.key}>
+                      <button
+                        type="button"
+                        onClick={() => onSelectEvent(event.key)}
+                        className="w-full flex gap-2 text-left hover:bg-zinc-800"
+                      >
+                        <span className="text-green-600">{formatClockTime(event.time)}</span>
+                        <span className="text-green-300">{event.callSign}</span>
+                        <span className={OUTCOME_STYLES[event.category].text}>{event.action}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
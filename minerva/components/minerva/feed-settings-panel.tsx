@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, type FC, type FormEvent } from "react";
+
+import type { FeedSource } from "@/lib/feed-sources";
+
+type FeedSettingsPanelProps = {
+  sources: FeedSource[];
+  activeSources: FeedSource[];
+  onToggle: (id: string) => void;
+  onSolo: (id: string) => void;
+  // Returns why the feed was refused, or null once it is added
+  onAdd: (label: string, url: string) => string | null;
+  onRemove: (id: string) => void;
+};
+
+export const FeedSettingsPanel: FC<FeedSettingsPanelProps> = ({
+  sources,
+  activeSources,
+  onToggle,
+  onSolo,
+  onAdd,
+  onRemove,
+}) => {
+  const [label, setLabel] = useState("");
+  const [url, setUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+    const refused = onAdd(label, url.trim());
+    setError(refused);
+    if (refused) return;
+    setLabel("");
+    setUrl("");
+  };
+
+  return (
+    <div className="border-2 border-green-700 rounded p-4 bg-zinc-800 font-mono">
+      <h2 className="text-lg uppercase tracking-wider mb-2">FEED SOURCES</h2>
+      <ul className="space-y-1 text-xs mb-3">
+        {sources.map((source) => {
+          const active = activeSources.some((s) => s.id === source.id);
+          return (
+            <li key={source.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={active}
+                onChange={() => onToggle(source.id)}
+                className="accent-green-600"
+                aria-label={`Subscribe to ${source.label}`}
+              />
+              <span className={active ? "text-green-300" : "text-green-700"}>{source.label}</span>
+              <span className="text-green-800 truncate flex-1">{source.url}</span>
+              <button
+                type="button"
+                onClick={() => onSolo(source.id)}
+                className="px-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+              >
+                SOLO
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(source.id)}
+                className="px-1 bg-zinc-700 rounded border border-red-900 text-red-400 hover:bg-zinc-600"
+              >
+                REMOVE
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <form onSubmit={handleAdd} className="flex gap-2 text-xs">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="EXERCISE"
+          className="w-1/3 p-1 bg-zinc-900 border border-green-700 rounded text-green-400 placeholder:text-green-700 focus:outline-none"
+        />
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="ws://host:port or /api/feed/<id>"
+          className="flex-1 p-1 bg-zinc-900 border border-green-700 rounded text-green-400 placeholder:text-green-700 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!url.trim()}
+          className="px-2 bg-green-800 text-black uppercase rounded hover:bg-green-600 disabled:bg-zinc-700 disabled:text-zinc-500"
+        >
+          ADD
+        </button>
+      </form>
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
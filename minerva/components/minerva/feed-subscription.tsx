@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, type FC } from "react";
+
+import { ConnectionIndicator } from "@/components/minerva/connection-indicator";
+import { useFeedConnection, type ConnectionStatus } from "@/hooks/use-feed-connection";
+import type { FeedSource } from "@/lib/feed-sources";
+import type { AckFrame, QuarantinedFrame, Transmission } from "@/lib/protocol";
+import type { RecordedFrame } from "@/lib/session-store";
+
+type FeedSubscriptionProps = {
+  source: FeedSource;
+  onTransmission: (transmission: Transmission) => void;
+  onQuarantine: (frame: QuarantinedFrame) => void;
+  onRecord: (frame: RecordedFrame) => void;
+  onAck: (ack: AckFrame) => void;
+  // The feed's send function while its link is open, null otherwise; must be stable
+  onLink: (sourceId: string, send: ((frame: string) => Promise<boolean>) | null) => void;
+  onStatusChange: (
+    source: FeedSource,
+    status: ConnectionStatus,
+    previous: ConnectionStatus,
+    resumed: boolean,
+  ) => void;
+  onSequenceReset: (source: FeedSource, firstId: number, lastId: number) => void;
+};
+
+// One live connection per subscribed feed; renders that feed's link status
+export const FeedSubscription: FC<FeedSubscriptionProps> = ({
+  source,
+  onTransmission,
+  onQuarantine,
+  onRecord,
+  onAck,
+  onLink,
+  onStatusChange,
+  onSequenceReset,
+}) => {
+  const feed = useFeedConnection({
+    url: source.url,
+    onMessage: (message) => onTransmission({ ...message, source: source.id, receivedAt: Date.now() }),
+    onQuarantine: (frame) => onQuarantine({ ...frame, source: source.id }),
+    onAck,
+    onRawFrame: (raw, receivedAt) => onRecord({ source: source.id, receivedAt, raw }),
+    onSequenceReset: (firstId, lastId) => onSequenceReset(source, firstId, lastId),
+    onStatusChange: (status, previous) =>
+      onStatusChange(source, status, previous, feed.lastMessageId !== null),
+  });
+
+  const linked = feed.status === "open";
+  useEffect(() => {
+    onLink(source.id, linked ? feed.send : null);
+  }, [onLink, source.id, linked, feed.send]);
+  // Unsubscribing closes the link
+  useEffect(() => () => onLink(source.id, null), [onLink, source.id]);
+
+  return (
+    <div className="flex items-center space-x-2 font-mono text-xs">
+      <span className="text-green-600">{source.label}</span>
+      <ConnectionIndicator status={feed.status} retryInMs={feed.retryInMs} onReconnect={feed.reconnect} />
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+"use client";
+
+import { useMemo, useState, type FC } from "react";
+
+import { compareActions, type DescribeAction } from "@/lib/action-taxonomy";
+import {
+  buildHeatmap,
+  HEATMAP_GROUPS,
+  heatLevel,
+  sortColumnsBy,
+  sortRowsBy,
+  type HeatmapColumn,
+} from "@/lib/influence-heatmap";
+import type { InfluenceAnalysis } from "@/lib/protocol";
+
+type InfluenceHeatmapProps = {
+  analysis: InfluenceAnalysis;
+  // Action of the selected transmission, marked in the grid
+  highlightAction?: string;
+  describeAction: DescribeAction;
+  onSelectAction: (action: string) => void;
+};
+
+type HoveredCell = { action: string; column: HeatmapColumn; score: number | undefined };
+
+// green-400 over the panel background, fainter for lower scores
+const heatColor = (level: number) => `rgba(74, 222, 128, ${(0.08 + level * 0.92).toFixed(3)})`;
+
+const formatScore = (score: number | undefined) => (score === undefined ? "NOT RANKED" : score.toFixed(3));
+
+export const InfluenceHeatmap: FC<InfluenceHeatmapProps> = ({
+  analysis,
+  highlightAction,
+  describeAction,
+  onSelectAction,
+}) => {
+  const heatmap = useMemo(() => buildHeatmap(analysis), [analysis]);
+  // Clicking a column header sorts the actions by it; the ⇅ beside an action
+  // sorts the columns by its scores. A second click restores the default order.
+  const [sortColumn, setSortColumn] = useState<string | null>(null);
+  const [sortRow, setSortRow] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<HoveredCell | null>(null);
+
+  const rows =
+    sortColumn && heatmap.columns.some((column) => column.id === sortColumn)
+      ? sortRowsBy(heatmap, sortColumn)
+      : [...heatmap.rows].sort(compareActions(describeAction));
+  const columns = sortRow && heatmap.rows.includes(sortRow) ? sortColumnsBy(heatmap, sortRow) : heatmap.columns;
+  const groups = HEATMAP_GROUPS.map((group) => ({
+    ...group,
+    span: columns.filter((column) => column.group === group.group).length,
+  })).filter((group) => group.span > 0);
+
+  return (
+    <div className="font-mono text-xs">
+      <div className="overflow-auto">
+        <table className="border-separate border-spacing-px">
+          <thead>
+            <tr>
+              <th />
+              {groups.map((group) => (
+                <th
+                  key={group.group}
+                  colSpan={group.span}
+                  className="font-normal text-green-600 border-b border-green-800"
+                >
+                  {group.label}
+                </th>
+              ))}
+            </tr>
+            <tr>
+              <th className="font-normal text-left text-green-600 align-bottom pr-2">ACTION</th>
+              {columns.map((column) => (
+                <th key={column.id} className="font-normal align-bottom h-24">
+                  <button
+                    type="button"
+                    title={`Sort actions by ${column.label}`}
+                    onClick={() => setSortColumn(sortColumn === column.id ? null : column.id)}
+                    className={`[writing-mode:vertical-rl] rotate-180 max-h-24 truncate ${
+                      sortColumn === column.id ? "text-amber-300" : "text-green-400 hover:text-green-200"
+                    }`}
+                  >
+                    {column.label}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((action) => (
+              <tr key={action} className={action === highlightAction ? "outline outline-1 outline-amber-400" : ""}>
+                <th className="font-normal text-left pr-2 whitespace-nowrap">
+                  <button
+                    type="button"
+                    title={`Sort columns by ${action}`}
+                    onClick={() => setSortRow(sortRow === action ? null : action)}
+                    className={`mr-1 ${sortRow === action ? "text-amber-300" : "text-green-700 hover:text-green-400"}`}
+                  >
+                    ⇅
+                  </button>
+                  <button
+                    type="button"
+                    title={`Open ${action}`}
+                    onClick={() => onSelectAction(action)}
+                    className={`hover:underline ${
+                      action === highlightAction ? "text-amber-300" : "text-green-400 hover:text-green-200"
+                    }`}
+                  >
+                    {describeAction(action).icon} {describeAction(action).label}
+                  </button>
+                </th>
+                {columns.map((column) => {
+                  const score = heatmap.cells[action][column.id];
+                  const isHovered = hovered?.action === action && hovered.column.id === column.id;
+                  return (
+                    <td
+                      key={column.id}
+                      title={`${action} × ${column.label}: ${formatScore(score)}`}
+                      onMouseEnter={() => setHovered({ action, column, score })}
+                      onMouseLeave={() => setHovered(null)}
+                      className={`w-5 h-5 min-w-5 ${score === undefined ? "bg-zinc-800" : ""} ${
+                        isHovered ? "outline outline-1 outline-amber-300" : ""
+                      }`}
+                      style={score === undefined ? undefined : { backgroundColor: heatColor(heatLevel(heatmap, score)) }}
+                    />
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between gap-4 mt-2">
+        <div className="flex items-center gap-2 text-green-600">
+          <span>{heatmap.min.toFixed(2)}</span>
+          <div
+            className="w-32 h-2 rounded border border-green-800"
+            style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(1)})` }}
+          />
+          <span>{heatmap.max.toFixed(2)}</span>
+          <span className="w-3 h-2 bg-zinc-800 border border-green-800 ml-2" />
+          <span>NOT IN TOP 3</span>
+        </div>
+        <div className="text-green-300 truncate">
+          {hovered
+            ? `${describeAction(hovered.action).label} × ${hovered.column.label}: ${formatScore(hovered.score)}`
+            : `${rows.length} ACTIONS × ${columns.length} FACTORS`}
+        </div>
+      </div>
+    </div>
+  );
+};
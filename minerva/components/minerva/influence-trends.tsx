@@ -0,0 +1,61 @@
+"use client";
+
+import type { FC } from "react";
+
+import { Sparkline } from "@/components/minerva/sparkline";
+import { compareActions, type DescribeAction } from "@/lib/action-taxonomy";
+import { actionSeries, actionsOf, type InfluencePoint, type InfluenceSnapshot } from "@/lib/influence-history";
+
+type InfluenceTrendsProps = {
+  history: InfluenceSnapshot[];
+  describeAction: DescribeAction;
+};
+
+type Metric = {
+  label: string;
+  value: (point: InfluencePoint) => number | null;
+  className: string;
+};
+
+const METRICS: Metric[] = [
+  { label: "ENTITY TOP", value: (point) => point.entityTop, className: "stroke-green-400" },
+  { label: "MISSION TOP", value: (point) => point.missionTop, className: "stroke-sky-400" },
+  { label: "LEGACY", value: (point) => point.legacy, className: "stroke-amber-400" },
+  { label: "DYNASTY", value: (point) => point.dynasty, className: "stroke-fuchsia-400" },
+];
+
+const formatValue = (value: number | null | undefined) => (value == null ? "N/A" : value.toFixed(2));
+
+// How each action's influence moved over the mission, one snapshot per point
+export const InfluenceTrends: FC<InfluenceTrendsProps> = ({ history, describeAction }) => {
+  const actions = actionsOf(history).sort(compareActions(describeAction));
+
+  return (
+    <div className="font-mono text-xs">
+      <div className="grid grid-cols-[8rem_repeat(4,minmax(0,1fr))] gap-2 text-green-600 mb-1">
+        <span>ACTION ({history.length} SNAPSHOTS)</span>
+        {METRICS.map((metric) => (
+          <span key={metric.label}>{metric.label}</span>
+        ))}
+      </div>
+      {actions.map((action) => {
+        const series = actionSeries(history, action);
+        const times = series.map((point) => point.time);
+        const latest = series[series.length - 1];
+        return (
+          <div key={action} className="grid grid-cols-[8rem_repeat(4,minmax(0,1fr))] gap-2 items-center py-1 border-t border-zinc-700">
+            <span className="truncate" title={action}>
+              {describeAction(action).icon} {describeAction(action).label}
+            </span>
+            {METRICS.map((metric) => (
+              <div key={metric.label}>
+                <Sparkline times={times} values={series.map(metric.value)} className={metric.className} />
+                <div className="text-green-300 text-right">{formatValue(latest && metric.value(latest))}</div>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
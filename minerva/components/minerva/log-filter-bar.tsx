@@ -0,0 +1,143 @@
+"use client";
+
+import type { FC } from "react";
+
+import { compareActions, type DescribeAction } from "@/lib/action-taxonomy";
+import {
+  emptyLogFilter,
+  isFilterActive,
+  type EnemyFilter,
+  type FacetCounts,
+  type LogFilter,
+} from "@/lib/log-filter";
+import type { Category } from "@/lib/protocol";
+
+type LogFilterBarProps = {
+  filter: LogFilter;
+  counts: FacetCounts;
+  matchCount: number;
+  totalCount: number;
+  describeAction: DescribeAction;
+  onChange: (filter: LogFilter) => void;
+};
+
+type ListFacet = "categories" | "vehicles" | "callSigns" | "actions";
+
+const CATEGORY_CHIP_STYLES: Record<Category, string> = {
+  positive: "border-green-600",
+  negative: "border-red-600",
+  neutral: "border-zinc-500",
+};
+
+type ChipOptions = {
+  styles?: Record<string, string>;
+  display?: (value: string) => string;
+  title?: (value: string) => string;
+  compare?: (a: string, b: string) => number;
+};
+
+const byName = (a: string, b: string) => a.localeCompare(b);
+
+const inputClass =
+  "p-1 bg-zinc-900 border border-green-700 rounded text-green-400 placeholder:text-green-700 focus:outline-none";
+
+export const LogFilterBar: FC<LogFilterBarProps> = ({
+  filter,
+  counts,
+  matchCount,
+  totalCount,
+  describeAction,
+  onChange,
+}) => {
+  const toggle = (facet: ListFacet, value: string) => {
+    const values = filter[facet] as string[];
+    onChange({
+      ...filter,
+      [facet]: values.includes(value) ? values.filter((v) => v !== value) : [...values, value],
+    });
+  };
+
+  const chips = (facet: ListFacet, label: string, values: Map<string, number>, options: ChipOptions = {}) =>
+    values.size > 0 && (
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-green-700 w-16">{label}</span>
+        {[...values.entries()]
+          .sort(([a], [b]) => (options.compare ?? byName)(a, b))
+          .map(([value, count]) => {
+            const selected = (filter[facet] as string[]).includes(value);
+            return (
+              <button
+                key={value}
+                type="button"
+                title={options.title?.(value)}
+                onClick={() => toggle(facet, value)}
+                className={`px-1 rounded border ${options.styles?.[value] ?? "border-green-800"} ${
+                  selected ? "bg-green-800 text-black" : "bg-zinc-900 hover:bg-zinc-700"
+                }`}
+              >
+                {options.display?.(value) ?? value} ({count})
+              </button>
+            );
+          })}
+      </div>
+    );
+
+  return (
+    <div className="mb-2 font-mono text-xs space-y-1">
+      <div className="flex gap-2 items-center">
+        <input
+          type="search"
+          value={filter.text}
+          onChange={(e) => onChange({ ...filter, text: e.target.value })}
+          placeholder="SEARCH EXPLANATIONS…"
+          className={`flex-1 ${inputClass}`}
+        />
+        <select
+          value={filter.enemy}
+          onChange={(e) => onChange({ ...filter, enemy: e.target.value as EnemyFilter })}
+          className={inputClass}
+          aria-label="Enemy contact"
+        >
+          <option value="any">ENEMY: ANY</option>
+          <option value="present">ENEMY: PRESENT</option>
+          <option value="absent">ENEMY: NONE</option>
+        </select>
+        <input
+          type="time"
+          step={1}
+          value={filter.from}
+          onChange={(e) => onChange({ ...filter, from: e.target.value })}
+          className={inputClass}
+          aria-label="From (UTC)"
+        />
+        <span className="text-green-700">–</span>
+        <input
+          type="time"
+          step={1}
+          value={filter.to}
+          onChange={(e) => onChange({ ...filter, to: e.target.value })}
+          className={inputClass}
+          aria-label="To (UTC)"
+        />
+      </div>
+      {chips("categories", "CATEGORY", counts.categories, { styles: CATEGORY_CHIP_STYLES })}
+      {chips("vehicles", "VEHICLE", counts.vehicles)}
+      {chips("callSigns", "CALL SIGN", counts.callSigns)}
+      {chips("actions", "ACTION", counts.actions, {
+        display: (action) => `${describeAction(action).icon} ${describeAction(action).label}`,
+        title: (action) => `${describeAction(action).group.label}: ${action}`,
+        compare: compareActions(describeAction),
+      })}
+      <div className="flex justify-between text-green-600">
+        <span>
+          {isFilterActive(filter) ? `${matchCount} OF ${totalCount} TRANSMISSIONS MATCH` : `${totalCount} TRANSMISSIONS`}
+        </span>
+        {isFilterActive(filter) && (
+          <button type="button" onClick={() => onChange(emptyLogFilter)} className="underline hover:text-green-300">
+            CLEAR FILTERS
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
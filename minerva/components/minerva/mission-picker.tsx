@@ -0,0 +1,60 @@
+"use client";
+
+import type { FC } from "react";
+
+import type { MissionSummary } from "@/lib/mission-manifest";
+
+type MissionPickerProps = {
+  missions: MissionSummary[];
+  error: string | null;
+  onSelect: (id: string | null) => void;
+  // Keep the current mission; only offered once one has been chosen
+  onCancel?: () => void;
+};
+
+export const MissionPicker: FC<MissionPickerProps> = ({ missions, error, onSelect, onCancel }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 font-mono">
+      <div className="w-full max-w-xl border-2 border-green-700 rounded p-6 bg-zinc-800 text-green-400">
+        <h2 className="text-2xl uppercase tracking-wider mb-4">SELECT MISSION</h2>
+        {error && <div className="text-red-400 text-xs mb-3">{error}</div>}
+        <ul className="space-y-2 mb-4 max-h-[50vh] overflow-y-auto">
+          {missions.map((mission) => (
+            <li key={mission.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(mission.id)}
+                className="w-full text-left border border-green-700 bg-zinc-900 rounded p-3 hover:bg-zinc-700"
+              >
+                <div className="text-lg">{mission.name}</div>
+                <div className="text-xs text-green-600">{mission.sector}</div>
+                {mission.description && <div className="text-xs text-green-300 mt-1">{mission.description}</div>}
+              </button>
+            </li>
+          ))}
+          {missions.length === 0 && !error && (
+            <li className="text-green-600 text-xs">[ NO MISSION MANIFESTS FOUND ]</li>
+          )}
+        </ul>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className="text-xs px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+          >
+            CONTINUE WITHOUT A MISSION
+          </button>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="text-xs px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+            >
+              CANCEL
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
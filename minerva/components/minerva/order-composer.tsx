@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, type FC, type FormEvent } from "react";
+
+import type { OrderDraft } from "@/lib/orders";
+import { ORDER_TYPES, type OrderType } from "@/lib/protocol";
+
+type OrderComposerProps = {
+  // Call signs an order can go to
+  targets: string[];
+  // Why orders can't be sent right now, e.g. no open link
+  disabledReason: string | null;
+  onSend: (draft: OrderDraft) => void;
+};
+
+const MAX_REMARKS_LENGTH = 280;
+
+const fieldClass =
+  "p-2 bg-zinc-900 border border-green-700 text-green-400 font-mono placeholder:text-green-600 focus:outline-none focus:ring-1 focus:ring-green-500 disabled:opacity-50";
+
+// TRANSMIT: a structured order to one unit, sent up the feed link
+export const OrderComposer: FC<OrderComposerProps> = ({ targets, disabledReason, onSend }) => {
+  const [target, setTarget] = useState("");
+  const [order, setOrder] = useState<OrderType>("HOLD");
+  const [remarks, setRemarks] = useState("");
+
+  // The chosen unit, or the first one until the operator picks
+  const selectedTarget = targets.includes(target) ? target : (targets[0] ?? "");
+  const disabled = disabledReason !== null || !selectedTarget;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (disabled) return;
+    onSend({ target: selectedTarget, order, remarks: remarks.trim() });
+    setRemarks("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex p-2 border-t border-green-700 bg-zinc-800 text-sm">
+      <select
+        value={selectedTarget}
+        onChange={(e) => setTarget(e.target.value)}
+        disabled={disabledReason !== null || targets.length === 0}
+        aria-label="Target call sign"
+        className={`${fieldClass} rounded-l`}
+      >
+        {targets.length === 0 && <option value="">NO UNITS</option>}
+        {targets.map((callSign) => (
+          <option key={callSign} value={callSign}>
+            {callSign}
+          </option>
+        ))}
+      </select>
+      <select
+        value={order}
+        onChange={(e) => setOrder(e.target.value as OrderType)}
+        disabled={disabledReason !== null}
+        aria-label="Order type"
+        className={`${fieldClass} border-l-0`}
+      >
+        {ORDER_TYPES.map((type) => (
+          <option key={type} value={type}>
+            {type}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={remarks}
+        onChange={(e) => setRemarks(e.target.value)}
+        maxLength={MAX_REMARKS_LENGTH}
+        placeholder={disabledReason ?? "Remarks (optional)"}
+        disabled={disabledReason !== null}
+        className={`${fieldClass} flex-1 min-w-0 border-l-0`}
+      />
+      <button
+        type="submit"
+        className="px-4 py-2 bg-green-800 text-black font-mono uppercase tracking-wide rounded-r hover:bg-green-600 focus:outline-none disabled:bg-zinc-700 disabled:text-zinc-500 transition-colors"
+        disabled={disabled}
+      >
+        TRANSMIT
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,55 @@
+import type { FC } from "react";
+
+import { formatClockTime } from "@/lib/format";
+import { canRetry, type Order, type OrderStatus } from "@/lib/orders";
+
+type OrderEchoProps = {
+  order: Order;
+  sourceLabel: (id: string) => string;
+  onRetry: (order: Order) => void;
+};
+
+const STATUS_STYLES: Record<OrderStatus, { label: string; className: string }> = {
+  sent: { label: "AWAITING ACK", className: "text-amber-400 animate-pulse" },
+  acknowledged: { label: "ACK", className: "text-green-400" },
+  rejected: { label: "REJECTED", className: "text-red-400" },
+  "timed-out": { label: "NO ACK", className: "text-red-400" },
+  undelivered: { label: "NO LINK", className: "text-red-400" },
+};
+
+// An outgoing order in the log, with its delivery status
+export const OrderEcho: FC<OrderEchoProps> = ({ order, sourceLabel, onRetry }) => {
+  const status = STATUS_STYLES[order.status];
+  return (
+    <div className="mb-3">
+      <div className="border-r-4 border-green-500 rounded px-3 py-2 font-mono bg-green-900/20">
+        <div className="flex justify-between text-xs text-green-600 mb-1">
+          <span>
+            ► COMMAND [OUTGOING] → {order.target}
+            {order.source ? ` | ${sourceLabel(order.source)}` : ""}
+          </span>
+          <span>{formatClockTime(order.issuedAt)} UTC</span>
+        </div>
+        <div className="flex items-baseline gap-2">
+          <h2 className="text-sm font-bold text-green-300">{order.order}</h2>
+          <span className={`text-xs ${status.className}`} title={`Order ${order.id}`}>
+            [{status.label}
+            {order.status !== "sent" && order.status !== "undelivered" ? ` ${formatClockTime(order.updatedAt)}` : ""}]
+          </span>
+          {order.attempts > 1 && <span className="text-xs text-green-700">ATTEMPT {order.attempts}</span>}
+          {canRetry(order) && (
+            <button
+              type="button"
+              onClick={() => onRetry(order)}
+              className="ml-auto text-xs px-2 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+            >
+              RETRY
+            </button>
+          )}
+        </div>
+        {order.remarks && <p className="text-sm text-green-200 mt-1">{order.remarks}</p>}
+        {order.reason && <p className="text-xs text-red-400 mt-1">REASON: {order.reason}</p>}
+      </div>
+    </div>
+  );
+};
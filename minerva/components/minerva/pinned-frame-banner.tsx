@@ -0,0 +1,48 @@
+import type { FC } from "react";
+
+import { formatClockTime } from "@/lib/format";
+import type { Transmission } from "@/lib/protocol";
+
+type PinnedFrameBannerProps = {
+  transmission: Transmission;
+  actionLabel: string;
+  // Transmission the shown analysis came from, if not the pinned one
+  inheritedFrom: Transmission | null;
+  hasAnalysis: boolean;
+  onReturnToLive: () => void;
+};
+
+export const PinnedFrameBanner: FC<PinnedFrameBannerProps> = ({
+  transmission,
+  actionLabel,
+  inheritedFrom,
+  hasAnalysis,
+  onReturnToLive,
+}) => (
+  <div className="flex justify-between items-start gap-2 mb-2 p-2 font-mono text-xs border border-amber-500 rounded bg-zinc-900">
+    <div>
+      <div className="text-amber-300">
+        PINNED: {transmission.callSign} @ {formatClockTime(transmission.timestamp)} UTC | ACTION: {actionLabel}
+      </div>
+      <div className="text-green-600">
+        ACTION MAPPING: <span className="text-green-300">{transmission.action_mapping ?? "N/A"}</span>
+      </div>
+      {!hasAnalysis ? (
+        <div className="text-green-600">NO INFLUENCE ANALYSIS RECEIVED BY THIS FRAME</div>
+      ) : (
+        inheritedFrom && (
+          <div className="text-green-600">
+            NO ANALYSIS IN THIS FRAME, SHOWING {inheritedFrom.callSign} @ {formatClockTime(inheritedFrom.timestamp)}
+          </div>
+        )
+      )}
+    </div>
+    <button
+      type="button"
+      onClick={onReturnToLive}
+      className="shrink-0 px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+    >
+      RETURN TO LIVE ►
+    </button>
+  </div>
+);
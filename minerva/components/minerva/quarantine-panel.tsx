@@ -0,0 +1,57 @@
+import type { FC } from "react";
+
+import type { QuarantinedFrame } from "@/lib/protocol";
+
+type QuarantinePanelProps = {
+  frames: QuarantinedFrame[];
+  onClear: () => void;
+};
+
+const RAW_PREVIEW_LENGTH = 160;
+
+export const QuarantinePanel: FC<QuarantinePanelProps> = ({ frames, onClear }) => {
+  return (
+    <div className="border-2 border-green-700 rounded p-4 bg-zinc-800">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-mono uppercase tracking-wider">
+          QUARANTINED FRAMES
+          <span className={`ml-2 text-sm ${frames.length > 0 ? "text-red-400" : "text-green-600"}`}>
+            [{frames.length}]
+          </span>
+        </h2>
+        {frames.length > 0 && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="font-mono text-xs px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+          >
+            CLEAR
+          </button>
+        )}
+      </div>
+      {frames.length === 0 ? (
+        <div className="text-green-600 font-mono text-xs">[ NO MALFORMED FRAMES ]</div>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto space-y-2 font-mono text-xs">
+          {frames.map((frame, idx) => (
+            <li key={`${frame.receivedAt}-${idx}`} className="border border-red-900 bg-zinc-900 rounded p-2">
+              <div className="text-red-400 mb-1">
+                {new Date(frame.receivedAt).toLocaleTimeString("en-US", { hour12: false })} | REJECTED
+              </div>
+              <ul className="text-red-300 mb-1">
+                {frame.reasons.map((reason) => (
+                  <li key={reason}>- {reason}</li>
+                ))}
+              </ul>
+              <div className="text-green-700 break-all">
+                {frame.raw.length > RAW_PREVIEW_LENGTH
+                  ? `${frame.raw.slice(0, RAW_PREVIEW_LENGTH)}…`
+                  : frame.raw}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
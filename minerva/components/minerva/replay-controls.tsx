@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, type FC } from "react";
+
+import { REPLAY_SPEEDS, type Replay } from "@/hooks/use-replay";
+import type { SessionMeta } from "@/lib/session-store";
+
+type ReplayControlsProps = {
+  replay: Replay;
+  sessions: SessionMeta[];
+};
+
+const controlClass =
+  "px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600 disabled:opacity-40 disabled:hover:bg-zinc-700";
+
+export const ReplayControls: FC<ReplayControlsProps> = ({ replay, sessions }) => {
+  const [selectedId, setSelectedId] = useState("");
+  const selected = sessions.find((session) => session.id === selectedId);
+
+  return (
+    <div className="font-mono text-xs space-y-2 mt-3">
+      <div className="flex gap-2 items-center">
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="flex-1 p-1 bg-zinc-900 border border-green-700 rounded text-green-400 focus:outline-none"
+        >
+          <option value="">SELECT RECORDED SESSION…</option>
+          {sessions.map((session) => (
+            <option key={session.id} value={session.id}>
+              {session.name} ({session.frameCount})
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={!selected || replay.loading}
+          onClick={() => selected && replay.load(selected)}
+          className={controlClass}
+        >
+          {replay.loading ? "LOADING…" : "LOAD"}
+        </button>
+        {replay.loaded && (
+          <button type="button" onClick={replay.unload} className={controlClass}>
+            EXIT REPLAY
+          </button>
+        )}
+      </div>
+      {replay.error && <p className="text-red-400">{replay.error}</p>}
+      {replay.loaded && (
+        <div className="flex gap-2 items-center">
+          <button
+            type="button"
+            onClick={replay.playing ? replay.pause : replay.play}
+            disabled={!replay.playing && replay.position >= replay.length}
+            className={controlClass}
+          >
+            {replay.playing ? "PAUSE" : "PLAY"}
+          </button>
+          <button
+            type="button"
+            onClick={replay.step}
+            disabled={replay.playing || replay.position >= replay.length}
+            className={controlClass}
+          >
+            STEP
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={replay.length}
+            value={replay.position}
+            onChange={(e) => replay.seek(Number(e.target.value))}
+            className="flex-1 accent-green-600"
+            aria-label="Seek"
+          />
+          <span className="text-green-600 w-20 text-right">
+            {replay.position}/{replay.length}
+          </span>
+          <select
+            value={replay.speed}
+            onChange={(e) => replay.setSpeed(Number(e.target.value))}
+            className="p-1 bg-zinc-900 border border-green-700 rounded text-green-400 focus:outline-none"
+            aria-label="Replay speed"
+          >
+            {REPLAY_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>
+                {speed}x
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+"use client";
+
+import type { FC } from "react";
+
+import { useClock } from "@/hooks/use-clock";
+import type { DescribeAction } from "@/lib/action-taxonomy";
+import type { Category } from "@/lib/protocol";
+import { isStale, type UnitStatus } from "@/lib/unit-roster";
+
+type RosterPanelProps = {
+  units: UnitStatus[];
+  describeAction: DescribeAction;
+  // Current time on the same clock as the units' lastReportAt; the panel
+  // keeps its own wall clock when there is none
+  now?: number;
+  staleAfterSeconds: number;
+  onStaleAfterChange: (seconds: number) => void;
+  selectedCallSigns: string[];
+  onSelectUnit: (callSign: string) => void;
+};
+
+const CATEGORY_TEXT: Record<Category, string> = {
+  positive: "text-green-400",
+  negative: "text-red-400",
+  neutral: "text-zinc-300",
+};
+
+// Elapsed time as "42S", "7M 05S" or "1H 12M"
+const formatSilence = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}S`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}M ${String(seconds % 60).padStart(2, "0")}S`;
+  return `${Math.floor(minutes / 60)}H ${String(minutes % 60).padStart(2, "0")}M`;
+};
+
+export const RosterPanel: FC<RosterPanelProps> = ({
+  units,
+  describeAction,
+  now: givenNow,
+  staleAfterSeconds,
+  onStaleAfterChange,
+  selectedCallSigns,
+  onSelectUnit,
+}) => {
+  const clockNow = useClock();
+  const now = givenNow ?? clockNow;
+  // Units that never reported count their silence from the first report heard
+  const reports = units.flatMap((unit) => (unit.lastReportAt === null ? [] : [unit.lastReportAt]));
+  const since = reports.length > 0 ? Math.min(...reports) : now;
+  const staleCount = units.filter((unit) => isStale(unit, now, staleAfterSeconds, since)).length;
+
+  return (
+    <div className="border-2 border-green-700 rounded p-4 bg-zinc-800">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-mono uppercase tracking-wider">
+          UNIT ROSTER
+          <span className="ml-2 text-sm text-green-600">[{units.length}]</span>
+          {staleCount > 0 && <span className="ml-2 text-sm text-amber-400">{staleCount} STALE</span>}
+        </h2>
+        <label className="flex items-center gap-2 font-mono text-xs text-green-600">
+          STALE AFTER (S)
+          <input
+            type="number"
+            min={1}
+            value={staleAfterSeconds}
+            onChange={(e) => onStaleAfterChange(Math.max(1, Number(e.target.value) || 1))}
+            className="w-16 p-1 bg-zinc-900 border border-green-700 rounded text-green-400 focus:outline-none"
+          />
+        </label>
+      </div>
+      {units.length === 0 ? (
+        <div className="text-green-600 font-mono text-xs">[ NO UNITS REPORTING ]</div>
+      ) : (
+        <table className="w-full font-mono text-xs">
+          <thead className="text-green-700 text-left">
+            <tr>
+              <th className="font-normal">UNIT</th>
+              <th className="font-normal">LAST ACTION</th>
+              <th className="font-normal text-right">LAST REPORT</th>
+              <th className="font-normal text-right">CONTACTS</th>
+              <th className="font-normal text-right">MSGS</th>
+            </tr>
+          </thead>
+          <tbody>
+            {units.map((unit) => {
+              const stale = isStale(unit, now, staleAfterSeconds, since);
+              const selected = selectedCallSigns.includes(unit.callSign);
+              const action = unit.lastAction === null ? null : describeAction(unit.lastAction);
+              return (
+                <tr
+                  key={unit.callSign}
+                  onClick={() => onSelectUnit(unit.callSign)}
+                  // A row can't be a <button>, so it takes the keys one would
+                  tabIndex={0}
+                  role="button"
+                  aria-pressed={selected}
+                  onKeyDown={(e) => {
+                    if (e.key !== "Enter" && e.key !== " ") return;
+                    e.preventDefault();
+                    onSelectUnit(unit.callSign);
+                  }}
+                  title={unit.unit ?? (unit.listed ? undefined : "Not listed in the mission roster")}
+                  className={`cursor-pointer border-t border-zinc-700 focus:outline-none focus-visible:ring-1 focus-visible:ring-green-400 ${
+                    selected ? "bg-green-900/40" : "hover:bg-zinc-700"
+                  }`}
+                >
+                  <td className="py-1">
+                    <div className={stale ? "text-amber-400" : "text-green-300"}>
+                      {unit.callSign}
+                      {stale && " ⚠"}
+                    </div>
+                    <div className="text-green-700">
+                      {unit.vehicle}
+                      {!unit.listed && " · UNLISTED"}
+                    </div>
+                  </td>
+                  <td
+                    className={unit.lastCategory ? CATEGORY_TEXT[unit.lastCategory] : "text-green-700"}
+                    title={action ? `${action.group.label}: ${action.action}` : undefined}
+                  >
+                    {action ? `${action.icon} ${action.label}` : "—"}
+                  </td>
+                  <td className={`text-right ${stale ? "text-amber-400" : "text-green-400"}`}>
+                    {unit.lastReportAt === null ? "NO REPORT" : `${formatSilence(now - unit.lastReportAt)} AGO`}
+                  </td>
+                  <td
+                    className={`text-right ${unit.enemyContacts > 0 ? "text-red-400" : "text-green-700"}`}
+                    title={unit.enemies.join(", ") || undefined}
+                  >
+                    {unit.enemyContacts}
+                  </td>
+                  <td className="text-right">{unit.messageCount}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
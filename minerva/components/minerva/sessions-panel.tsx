@@ -0,0 +1,125 @@
+"use client";
+
+import { useRef, useState, type FC } from "react";
+
+import type { SessionRecorder } from "@/hooks/use-session-recorder";
+import type { SessionMeta } from "@/lib/session-store";
+
+type SessionsPanelProps = {
+  recorder: SessionRecorder;
+};
+
+const formatDate = (value: number) =>
+  new Date(value).toLocaleString("en-US", { hour12: false });
+
+export const SessionsPanel: FC<SessionsPanelProps> = ({ recorder }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const renameCancelled = useRef(false);
+
+  const beginRename = (session: SessionMeta) => {
+    renameCancelled.current = false;
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  // Only leaving the field saves; Enter and Escape both leave it, so a
+  // rename is never saved twice
+  const commitRename = async () => {
+    setEditingId(null);
+    if (!renameCancelled.current && editingId && draftName.trim()) {
+      await recorder.rename(editingId, draftName.trim());
+    }
+  };
+
+  return (
+    <div className="border-2 border-green-700 rounded p-4 bg-zinc-800 font-mono">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg uppercase tracking-wider">RECORDED SESSIONS</h2>
+        <div className="flex gap-2 text-xs">
+          <button
+            type="button"
+            onClick={recorder.startNewSession}
+            className="px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+          >
+            NEW RECORDING
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+          >
+            IMPORT JSONL
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".jsonl,.ndjson,application/x-ndjson"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) recorder.importJsonl(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+      {recorder.error && <div className="text-red-400 text-xs mb-2">{recorder.error}</div>}
+      {recorder.sessions.length === 0 ? (
+        <div className="text-green-600 text-xs">[ NO RECORDED SESSIONS ]</div>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+          {recorder.sessions.map((session) => (
+            <li key={session.id} className="flex items-center gap-2 border border-green-900 bg-zinc-900 rounded p-1">
+              {session.id === recorder.recordingId && (
+                <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" title="Recording"></span>
+              )}
+              {editingId === session.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                    if (e.key === "Escape") {
+                      renameCancelled.current = true;
+                      e.currentTarget.blur();
+                    }
+                  }}
+                  className="flex-1 p-0.5 bg-zinc-800 border border-green-700 rounded text-green-400 focus:outline-none"
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => beginRename(session)}
+                  className="flex-1 text-left text-green-300 truncate hover:underline"
+                  title="Rename"
+                >
+                  {session.name}
+                </button>
+              )}
+              <span className="text-green-700">{session.frameCount} FRAMES</span>
+              <span className="text-green-800">{formatDate(session.createdAt)}</span>
+              <button
+                type="button"
+                onClick={() => recorder.exportJsonl(session)}
+                className="px-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+              >
+                EXPORT
+              </button>
+              <button
+                type="button"
+                onClick={() => recorder.remove(session.id)}
+                className="px-1 bg-zinc-700 rounded border border-red-900 text-red-400 hover:bg-zinc-600"
+              >
+                DELETE
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
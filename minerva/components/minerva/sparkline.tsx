@@ -0,0 +1,54 @@
+import type { FC } from "react";
+
+type SparklineProps = {
+  // Mission times and values, in time order; null values leave a gap
+  times: number[];
+  values: (number | null)[];
+  domain?: [number, number];
+  className?: string;
+};
+
+const WIDTH = 100;
+const HEIGHT = 24;
+
+export const Sparkline: FC<SparklineProps> = ({ times, values, domain, className = "stroke-green-400" }) => {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) {
+    return <div className="h-6 text-green-700 text-xs">N/A</div>;
+  }
+  const [low, high] = domain ?? [Math.min(...present), Math.max(...present)];
+  const start = times[0];
+  const span = Math.max(times[times.length - 1] - start, 1);
+  const x = (time: number) => (times.length === 1 ? WIDTH / 2 : ((time - start) / span) * WIDTH);
+  const y = (value: number) => HEIGHT - 2 - ((value - low) / Math.max(high - low, 1e-9)) * (HEIGHT - 4);
+
+  // Split into runs at every missing value so the line doesn't bridge them
+  const runs: string[][] = [[]];
+  values.forEach((value, idx) => {
+    if (value === null) {
+      runs.push([]);
+    } else {
+      runs[runs.length - 1].push(`${x(times[idx]).toFixed(2)},${y(value).toFixed(2)}`);
+    }
+  });
+  const lastIdx = values.length - 1;
+  const last = values[lastIdx];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-6">
+      {runs
+        .filter((run) => run.length > 0)
+        .map((run, idx) => (
+          <polyline
+            key={idx}
+            points={run.join(" ")}
+            fill="none"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            className={className}
+          />
+        ))}
+      {last !== null && <circle cx={x(times[lastIdx])} cy={y(last)} r={1.5} className="fill-amber-300" />}
+    </svg>
+  );
+};
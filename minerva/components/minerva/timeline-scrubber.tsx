@@ -0,0 +1,110 @@
+"use client";
+
+import type { FC, KeyboardEvent, MouseEvent } from "react";
+
+import type { VideoSync } from "@/hooks/use-video-sync";
+import { formatClockTime } from "@/lib/format";
+import { toVideoTime, type MissionClock, type TimelinePoint } from "@/lib/mission-clock";
+import type { Category } from "@/lib/protocol";
+import { formatTimecode } from "@/lib/video-controls";
+
+type TimelineScrubberProps = {
+  points: TimelinePoint[];
+  clock: MissionClock;
+  sync: VideoSync;
+};
+
+// Seconds an arrow key moves the playhead; Page Up and Page Down move ten times as far
+const KEY_STEP_SECONDS = 1;
+
+const TICK_COLORS: Record<Category, string> = {
+  positive: "bg-green-500",
+  negative: "bg-red-500",
+  neutral: "bg-zinc-400",
+};
+
+export const TimelineScrubber: FC<TimelineScrubberProps> = ({ points, clock, sync }) => {
+  // Until the player reports a duration, span the transmissions themselves
+  const lastPoint = points.length > 0 ? toVideoTime(clock, points[points.length - 1].time) : 0;
+  const span = Math.max(sync.duration, lastPoint, 1);
+  const percent = (seconds: number) => `${Math.min(100, Math.max(0, (seconds / span) * 100))}%`;
+
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    sync.seekVideo(((e.clientX - rect.left) / rect.width) * span);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const targets: Record<string, number> = {
+      ArrowLeft: sync.videoTime - KEY_STEP_SECONDS,
+      ArrowDown: sync.videoTime - KEY_STEP_SECONDS,
+      ArrowRight: sync.videoTime + KEY_STEP_SECONDS,
+      ArrowUp: sync.videoTime + KEY_STEP_SECONDS,
+      PageDown: sync.videoTime - 10 * KEY_STEP_SECONDS,
+      PageUp: sync.videoTime + 10 * KEY_STEP_SECONDS,
+      Home: 0,
+      End: span,
+    };
+    if (e.target !== e.currentTarget || !(e.key in targets)) return;
+    e.preventDefault();
+    sync.seekVideo(Math.min(span, Math.max(0, targets[e.key])));
+  };
+
+  return (
+    <div className="mt-2 font-mono text-xs">
+      <div
+        role="slider"
+        aria-label="Mission timeline"
+        aria-valuemin={0}
+        aria-valuemax={span}
+        aria-valuenow={sync.videoTime}
+        aria-valuetext={formatTimecode(sync.videoTime, sync.frameRate)}
+        tabIndex={0}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        className="relative h-5 bg-zinc-900 border border-green-700 rounded cursor-pointer focus:outline-none focus-visible:ring-1 focus-visible:ring-green-400"
+      >
+        {points.map((point) => (
+          <button
+            key={point.key}
+            type="button"
+            title={formatClockTime(point.time)}
+            onClick={(e) => {
+              e.stopPropagation();
+              sync.seekToMission(point.time);
+            }}
+            className={`absolute top-0.5 bottom-0.5 w-0.5 ${TICK_COLORS[point.category]} ${
+              point.key === sync.currentKey ? "ring-1 ring-white" : "opacity-80"
+            }`}
+            style={{ left: percent(toVideoTime(clock, point.time)) }}
+          />
+        ))}
+        <div
+          className="absolute top-0 bottom-0 w-px bg-amber-300 pointer-events-none"
+          style={{ left: percent(sync.videoTime) }}
+        />
+      </div>
+      <div className="flex justify-between items-center text-green-600 mt-1">
+        <span>{formatTimecode(sync.videoTime, sync.frameRate)}</span>
+        <div className="flex gap-1">
+          {[
+            { label: "◄ FRAME", onClick: () => sync.stepFrames(-1) },
+            { label: "PLAY", onClick: sync.play },
+            { label: "PAUSE", onClick: sync.pause },
+            { label: "FRAME ►", onClick: () => sync.stepFrames(1) },
+          ].map(({ label, onClick }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={onClick}
+              className="px-1 bg-zinc-700 rounded border border-green-700 hover:bg-zinc-600"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <span>{formatTimecode(span, sync.frameRate)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import type { FC } from "react";
+
+import { OrderEcho } from "@/components/minerva/order-echo";
+import Message from "@/components/ui/Message";
+import type { DescribeAction } from "@/lib/action-taxonomy";
+import type { LogEntry } from "@/lib/feed-state";
+import { formatClockTime } from "@/lib/format";
+import type { Order } from "@/lib/orders";
+
+type TransmissionLogProps = {
+  entries: LogEntry[];
+  sourceLabel: (id: string) => string;
+  // Show each transmission's feed; only useful with more than one feed
+  showSource: boolean;
+  highlight: string[];
+  describeAction: DescribeAction;
+  selectedKey: string | null;
+  onSelect: (key: string) => void;
+  onRetryOrder: (order: Order) => void;
+};
+
+export const TransmissionLog: FC<TransmissionLogProps> = ({
+  entries,
+  sourceLabel,
+  showSource,
+  highlight,
+  describeAction,
+  selectedKey,
+  onSelect,
+  onRetryOrder,
+}) => {
+  return (
+    <>
+      {entries.map((entry) => {
+        if (entry.kind === "system") {
+          return (
+            <div key={entry.key} className="mb-3 text-xs text-amber-400">
+              ◆ SYSTEM | {formatClockTime(entry.at)} UTC | {entry.content}
+            </div>
+          );
+        }
+        if (entry.kind === "order") {
+          return <OrderEcho key={entry.key} order={entry.order} sourceLabel={sourceLabel} onRetry={onRetryOrder} />;
+        }
+        const action = describeAction(entry.transmission.action);
+        return (
+          <div key={entry.key} data-transmission-key={entry.key}>
+            <Message
+              action={entry.transmission.action}
+              actionLabel={action.label}
+              actionIcon={action.icon}
+              actionMapping={entry.transmission.action_mapping}
+              vehicle={entry.transmission.vehicle}
+              callSign={entry.transmission.callSign}
+              enemy={entry.transmission.enemy}
+              explanation={entry.transmission.explanation}
+              category={entry.transmission.category}
+              timestamp={entry.transmission.timestamp}
+              source={showSource ? sourceLabel(entry.transmission.source) : undefined}
+              highlight={highlight}
+              selected={entry.key === selectedKey}
+              onSelect={() => onSelect(entry.key)}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useRef, type FC } from "react";
+import YouTube from "react-youtube";
+
+import type { VideoSource } from "@/lib/mission-manifest";
+import { htmlVideoControls, youTubeControls, type VideoControls } from "@/lib/video-controls";
+
+type VideoPlayerProps = {
+  source: VideoSource;
+  // Called with the player's controls once it can seek, and with null when it goes away
+  onReady: (controls: VideoControls | null) => void;
+};
+
+const youTubeOpts = {
+  height: "100%",
+  width: "100%",
+  playerVars: {
+    autoplay: 0,
+    controls: 1,
+  },
+};
+
+const HtmlVideoPlayer: FC<{ url: string; hls: boolean; onReady: VideoPlayerProps["onReady"] }> = ({
+  url,
+  hls,
+  onReady,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onReadyRef = useRef(onReady);
+
+  useEffect(() => {
+    onReadyRef.current = onReady;
+  });
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let destroyed = false;
+    let destroyHls: (() => void) | undefined;
+    const handleLoaded = () => onReadyRef.current(htmlVideoControls(video));
+    video.addEventListener("loadedmetadata", handleLoaded);
+
+    // Safari plays HLS natively; everywhere else hls.js feeds Media Source Extensions
+    if (!hls || video.canPlayType("application/vnd.apple.mpegurl")) {
+      video.src = url;
+    } else {
+      import("hls.js").then(({ default: Hls }) => {
+        if (destroyed) return;
+        if (!Hls.isSupported()) {
+          console.error("HLS playback is not supported in this browser");
+          return;
+        }
+        const player = new Hls();
+        player.loadSource(url);
+        player.attachMedia(video);
+        destroyHls = () => player.destroy();
+      });
+    }
+
+    return () => {
+      destroyed = true;
+      video.removeEventListener("loadedmetadata", handleLoaded);
+      destroyHls?.();
+      video.removeAttribute("src");
+      video.load();
+      onReadyRef.current(null);
+    };
+  }, [url, hls]);
+
+  return <video ref={videoRef} controls playsInline preload="metadata" className="w-full h-full bg-black" />;
+};
+
+const YouTubePlayer: FC<{ videoId: string; onReady: VideoPlayerProps["onReady"] }> = ({ videoId, onReady }) => {
+  const onReadyRef = useRef(onReady);
+
+  useEffect(() => {
+    onReadyRef.current = onReady;
+  });
+
+  // The player is destroyed with the video it was showing
+  useEffect(() => () => onReadyRef.current(null), [videoId]);
+
+  return (
+    <YouTube
+      videoId={videoId}
+      opts={youTubeOpts}
+      className="w-full h-full"
+      onReady={(event) => onReadyRef.current(youTubeControls(event.target))}
+    />
+  );
+};
+
+// Mission video from YouTube, a local file, or an HLS stream, all exposed
+// through the same VideoControls
+export const VideoPlayer: FC<VideoPlayerProps> = ({ source, onReady }) => {
+  if (source.type === "youtube") {
+    return <YouTubePlayer videoId={source.videoId} onReady={onReady} />;
+  }
+  return <HtmlVideoPlayer url={source.url} hls={source.type === "hls"} onReady={onReady} />;
+};
@@ -1,38 +1,108 @@
 import React from "react";
 
-type Category = 'positive' | 'negative' | 'neutral';
+import { formatClockTime } from "@/lib/format";
+import { highlightSegments } from "@/lib/log-filter";
+import type { Category } from "@/lib/protocol";
 
 type MessageProps = {
   action: string;
+  actionLabel?: string;  // Display name from the action taxonomy
+  actionIcon?: string;
+  actionMapping?: string;  // Simulator action code
   vehicle: string;
   callSign: string;
   enemy?: string;  // Optional field
   explanation: string;
   category: Category;
+  timestamp: string;  // Original transmission time, not arrival time
+  source?: string;  // Feed label, shown when several feeds are active
+  highlight?: string[];  // Search terms to mark in the explanation
+  selected?: boolean;
+  onSelect?: () => void;
 };
 
 const getCategoryStyles = (category: Category): string => {
   switch (category) {
     case 'positive':
-      return 'bg-green-100';
+      return 'bg-green-950/60 border-green-600';
     case 'negative':
-      return 'bg-red-100';
+      return 'bg-red-950/60 border-red-600';
     default:
-      return 'bg-gray-100';
+      return 'bg-zinc-800 border-zinc-600';
   }
 };
 
-const Message: React.FC<MessageProps> = ({ action, vehicle, callSign, enemy, explanation, category }) => (
+const getCategoryLabelStyles = (category: Category): string => {
+  switch (category) {
+    case 'positive':
+      return 'text-green-400';
+    case 'negative':
+      return 'text-red-400';
+    default:
+      return 'text-zinc-400';
+  }
+};
+
+const Message: React.FC<MessageProps> = ({
+  action,
+  actionLabel,
+  actionIcon,
+  actionMapping,
+  vehicle,
+  callSign,
+  enemy,
+  explanation,
+  category,
+  timestamp,
+  source,
+  highlight = [],
+  selected,
+  onSelect,
+}) => (
   <div className="mb-3">
-    <div className={`${getCategoryStyles(category)} rounded-lg px-4 py-3 inline-block max-w-[90%]`}>
-      <h1 className="text-lg font-bold">{vehicle}: {callSign}</h1>
-      <h2 className="text-md font-semibold mt-1">{action}</h2>
+    <div
+      onClick={onSelect}
+      // Selectable from the keyboard too; the content has headings, so it
+      // can't be a <button>
+      role={onSelect ? 'button' : undefined}
+      tabIndex={onSelect ? 0 : undefined}
+      aria-pressed={onSelect ? Boolean(selected) : undefined}
+      onKeyDown={onSelect ? e => {
+        if (e.target !== e.currentTarget || (e.key !== 'Enter' && e.key !== ' ')) return;
+        e.preventDefault();
+        onSelect();
+      } : undefined}
+      className={`${getCategoryStyles(category)} border-l-4 rounded px-3 py-2 font-mono ${
+        onSelect ? 'cursor-pointer focus:outline-none focus-visible:ring-1 focus-visible:ring-green-400' : ''
+      } ${selected ? 'ring-1 ring-amber-300' : ''}`}
+    >
+      <div className="flex justify-between text-xs text-green-600 mb-1">
+        <span>
+          ◄ {source ? `${source} | ` : ''}{vehicle}: {callSign}
+        </span>
+        <span>{formatClockTime(timestamp)} UTC</span>
+      </div>
+      <div className="flex items-baseline gap-2">
+        <h2 className="text-sm font-bold text-green-300" title={action}>
+          {actionIcon ? `${actionIcon} ` : ''}{(actionLabel ?? action).toUpperCase()}
+        </h2>
+        {actionMapping && <span className="text-xs text-green-700">→ {actionMapping}</span>}
+        <span className={`text-xs uppercase ${getCategoryLabelStyles(category)}`}>[{category}]</span>
+      </div>
       {enemy && (
-        <h2 className="text-md font-semibold mt-1 text-red-600">Enemy: {enemy}</h2>
+        <h2 className="text-sm font-semibold mt-1 text-red-400">ENEMY: {enemy}</h2>
       )}
-      <p className="text-sm text-gray-700 mt-2">{explanation}</p>
+      <p className="text-sm text-green-200 mt-1">
+        {highlightSegments(explanation, highlight).map((segment, idx) =>
+          segment.match ? (
+            <mark key={idx} className="bg-amber-300 text-black rounded-sm">{segment.text}</mark>
+          ) : (
+            <React.Fragment key={idx}>{segment.text}</React.Fragment>
+          )
+        )}
+      </p>
     </div>
   </div>
 );
 
-export default Message;
\ No newline at end of file
+export default Message;
@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import type { AfterActionReport } from "@/lib/after-action";
+import { reportHtml, reportMarkdown } from "@/lib/after-action-export";
+import { describeChatError } from "@/lib/chat-errors";
+import type { SessionContext } from "@/lib/session-query";
+
+const fileNameOf = (report: AfterActionReport) =>
+  `${report.title.replace(/[^\w.-]+/g, "_")}_${report.generatedAt.slice(0, 10)}.md`;
+
+/**
+ * The after-action report of the loaded session, built by /api/after-action,
+ * and its exports: a Markdown download and a printable page in a new tab.
+ */
+export function useAfterAction() {
+  const [report, setReport] = useState<AfterActionReport | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = useCallback(async (session: SessionContext, sessionId: string) => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/after-action", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ session, sessionId }),
+      });
+      if (!res.ok) throw new Error(describeChatError(res.status, await res.text().catch(() => "")));
+      setReport(await res.json());
+    } catch (err) {
+      setError(`UNABLE TO BUILD REPORT: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setGenerating(false);
+    }
+  }, []);
+
+  const exportMarkdown = useCallback(() => {
+    if (!report) return;
+    const url = URL.createObjectURL(new Blob([reportMarkdown(report)], { type: "text/markdown" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileNameOf(report);
+    link.click();
+    // Let the download pick the file up before the URL goes
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }, [report]);
+
+  const openPrintable = useCallback(() => {
+    if (!report) return;
+    const url = URL.createObjectURL(new Blob([reportHtml(report)], { type: "text/html" }));
+    window.open(url, "_blank");
+    // The new tab needs the URL until it has loaded
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }, [report]);
+
+  const clear = useCallback(() => {
+    setReport(null);
+    setError(null);
+  }, []);
+
+  return { report, generating, error, generate, exportMarkdown, openPrintable, clear };
+}
+
+export type AfterAction = ReturnType<typeof useAfterAction>;
@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/** The wall clock, re-read every `intervalMs` so elapsed-time readouts tick. */
+export function useClock(intervalMs = 1000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
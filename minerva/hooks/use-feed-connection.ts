@@ -0,0 +1,236 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { openFeedTransport, type FeedCursor, type FeedTransport } from "@/lib/feed-transport";
+import {
+  parseAckFrame,
+  parseFrame,
+  type AckFrame,
+  type QuarantinedFrame,
+  type WebSocketMessage,
+} from "@/lib/protocol";
+
+export type ConnectionStatus = "connecting" | "open" | "stale" | "reconnecting" | "closed";
+
+export type FeedConnectionOptions = {
+  url: string;
+  onMessage: (message: WebSocketMessage) => void;
+  onQuarantine?: (frame: QuarantinedFrame) => void;
+  // Acks of orders sent with `send`
+  onAck?: (ack: AckFrame) => void;
+  // Every data frame as received, valid or not, minus resume duplicates
+  onRawFrame?: (raw: string, receivedAt: number) => void;
+  // The feed started its ids over, e.g. the simulator restarted
+  onSequenceReset?: (firstId: number, lastId: number) => void;
+  onStatusChange?: (status: ConnectionStatus, previous: ConnectionStatus) => void;
+  heartbeatIntervalMs?: number;
+  heartbeatTimeoutMs?: number;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+};
+
+export type FeedConnection = {
+  status: ConnectionStatus;
+  // Delay before the next reconnect attempt, while status is "reconnecting"
+  retryInMs: number | null;
+  lastMessageId: number | null;
+  reconnect: () => void;
+  // Send a frame up the link; resolves to false if it didn't get there
+  send: (frame: string) => Promise<boolean>;
+};
+
+const backoffDelay = (attempt: number, initialMs: number, maxMs: number) => {
+  const base = Math.min(maxMs, initialMs * 2 ** attempt);
+  // Up to 20% jitter so several viewers don't reconnect in lockstep
+  return Math.round(base * (0.8 + Math.random() * 0.2));
+};
+
+/**
+ * Keeps a link to a field-unit feed alive, either a direct WebSocket or the
+ * feed gateway (see lib/feed-transport): reconnects with exponential backoff,
+ * treats a link with no traffic for `heartbeatTimeoutMs` as stale, and after
+ * a reconnect asks the server to resume after the last message id. Frames at
+ * or below that id are dropped so replays are not duplicated, except that a
+ * first frame at or below it, or any frame after the gateway reports a
+ * restart, means the server started over rather than resuming, so the id
+ * sequence is reset instead. Orders go up
+ * the same link with `send`, and their acks come back through `onAck` rather
+ * than the feed.
+ */
+export function useFeedConnection({
+  url,
+  onMessage,
+  onQuarantine,
+  onAck,
+  onRawFrame,
+  onSequenceReset,
+  onStatusChange,
+  heartbeatIntervalMs = 10_000,
+  heartbeatTimeoutMs = 25_000,
+  initialBackoffMs = 1_000,
+  maxBackoffMs = 30_000,
+}: FeedConnectionOptions): FeedConnection {
+  const [status, setStatus] = useState<ConnectionStatus>("connecting");
+  const [retryInMs, setRetryInMs] = useState<number | null>(null);
+  const [lastMessageId, setLastMessageId] = useState<number | null>(null);
+  const [connectionNonce, setConnectionNonce] = useState(0);
+
+  const lastIdRef = useRef<number | null>(null);
+  const statusRef = useRef<ConnectionStatus>("connecting");
+  const transportRef = useRef<FeedTransport | null>(null);
+  const cursorRef = useRef<FeedCursor>({ lastEventId: null });
+  const handlersRef = useRef({ onMessage, onQuarantine, onAck, onRawFrame, onSequenceReset, onStatusChange });
+
+  useEffect(() => {
+    handlersRef.current = { onMessage, onQuarantine, onAck, onRawFrame, onSequenceReset, onStatusChange };
+  });
+
+  // A different feed has its own id sequence
+  useEffect(() => {
+    lastIdRef.current = null;
+    cursorRef.current = { lastEventId: null };
+    setLastMessageId(null);
+  }, [url]);
+
+  useEffect(() => {
+    let transport: FeedTransport | null = null;
+    let attempt = 0;
+    let lastSeen = Date.now();
+    let disposed = false;
+    // No data frame yet on this link
+    let firstFrame = true;
+    // The gateway said its ids started over; the next frame begins a new
+    // sequence whatever its id
+    let restarted = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+    const transition = (next: ConnectionStatus) => {
+      const previous = statusRef.current;
+      if (previous === next) return;
+      statusRef.current = next;
+      setStatus(next);
+      handlersRef.current.onStatusChange?.(next, previous);
+    };
+
+    const teardown = () => {
+      clearInterval(heartbeatTimer);
+      transportRef.current = null;
+      transport?.close();
+      transport = null;
+    };
+
+    const scheduleReconnect = () => {
+      if (disposed) return;
+      const delay = backoffDelay(attempt, initialBackoffMs, maxBackoffMs);
+      attempt += 1;
+      transition("reconnecting");
+      setRetryInMs(delay);
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    const handleFrame = (raw: string) => {
+      // Acks answer our own orders; they aren't part of the feed
+      const ack = parseAckFrame(raw);
+      if (ack) {
+        handlersRef.current.onAck?.(ack);
+        return;
+      }
+
+      const result = parseFrame(raw, lastSeen);
+      if (!result.ok) {
+        handlersRef.current.onRawFrame?.(raw, lastSeen);
+        handlersRef.current.onQuarantine?.(result.frame);
+        return;
+      }
+
+      const { id } = result.message;
+      let lastId = lastIdRef.current;
+      if (lastId !== null && (restarted || (firstFrame && id <= lastId))) {
+        handlersRef.current.onSequenceReset?.(id, lastId);
+        lastId = null;
+      }
+      firstFrame = false;
+      restarted = false;
+      if (lastId !== null && id <= lastId) return;
+      handlersRef.current.onRawFrame?.(raw, lastSeen);
+      lastIdRef.current = result.message.id;
+      setLastMessageId(result.message.id);
+      handlersRef.current.onMessage(result.message);
+    };
+
+    const connect = () => {
+      transition("connecting");
+      setRetryInMs(null);
+
+      let link: FeedTransport;
+      try {
+        link = openFeedTransport(
+          url,
+          {
+            onOpen: () => {
+              attempt = 0;
+              firstFrame = true;
+              lastSeen = Date.now();
+              transportRef.current = link;
+              transition("open");
+              if (lastIdRef.current !== null) link.resume(lastIdRef.current);
+              heartbeatTimer = setInterval(() => {
+                if (Date.now() - lastSeen > heartbeatTimeoutMs) {
+                  // A dead link may never deliver a close event, so don't wait for one
+                  transition("stale");
+                  teardown();
+                  scheduleReconnect();
+                  return;
+                }
+                link.heartbeat();
+              }, heartbeatIntervalMs);
+            },
+            onAlive: () => {
+              lastSeen = Date.now();
+            },
+            onFrame: handleFrame,
+            // Through the gateway, the link can be up while the simulator isn't
+            onUpstream: (open) => {
+              transportRef.current = open ? link : null;
+              transition(open ? "open" : "reconnecting");
+            },
+            onRestart: () => {
+              restarted = true;
+            },
+            onClose: () => {
+              teardown();
+              scheduleReconnect();
+            },
+          },
+          cursorRef.current,
+        );
+      } catch (error) {
+        // A bad URL won't get better by retrying
+        console.error("Cannot open feed:", error);
+        transition("closed");
+        return;
+      }
+      transport = link;
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      teardown();
+      transition("closed");
+    };
+  }, [url, connectionNonce, heartbeatIntervalMs, heartbeatTimeoutMs, initialBackoffMs, maxBackoffMs]);
+
+  const reconnect = useCallback(() => setConnectionNonce((n) => n + 1), []);
+
+  const send = useCallback(
+    (frame: string) => transportRef.current?.send(frame) ?? Promise.resolve(false),
+    [],
+  );
+
+  return { status, retryInMs, lastMessageId, reconnect, send };
+}
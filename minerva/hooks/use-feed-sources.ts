@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import {
+  feedUrlError,
+  getDefaultFeedSources,
+  isFeedSource,
+  slugify,
+  uniqueSourceId,
+  type FeedSource,
+} from "@/lib/feed-sources";
+
+const STORAGE_KEY = "minerva.feedSources";
+
+type StoredFeedSettings = {
+  sources: FeedSource[];
+  activeIds: string[];
+};
+
+const loadSettings = (): StoredFeedSettings | null => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!stored || !Array.isArray(stored.sources) || !Array.isArray(stored.activeIds)) {
+      return null;
+    }
+    const sources = stored.sources.filter(isFeedSource);
+    return sources.length > 0 ? { sources, activeIds: stored.activeIds } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Feed sources from NEXT_PUBLIC_FEED_SOURCES, overridden by whatever the
+ * operator saved in the settings panel. The first source is active by default.
+ */
+export function useFeedSources() {
+  const [sources, setSources] = useState<FeedSource[]>(getDefaultFeedSources);
+  const [activeIds, setActiveIds] = useState<string[]>(() => [sources[0].id]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const stored = loadSettings();
+    if (stored) {
+      setSources(stored.sources);
+      setActiveIds(stored.activeIds.filter((id) => stored.sources.some((s) => s.id === id)));
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ sources, activeIds }));
+  }, [loaded, sources, activeIds]);
+
+  const toggleSource = useCallback((id: string) => {
+    setActiveIds((prev) => (prev.includes(id) ? prev.filter((a) => a !== id) : [...prev, id]));
+  }, []);
+
+  // Switch to a single feed, dropping every other subscription
+  const soloSource = useCallback((id: string) => setActiveIds([id]), []);
+
+  // Returns why the source was refused, or null once it is added. A label
+  // that is already taken gets a numbered id rather than replacing the source.
+  const addSource = useCallback((label: string, url: string): string | null => {
+    const error = feedUrlError(url);
+    if (error) return error;
+    const id = slugify(label) || slugify(url);
+    if (!id) return "Give the feed a label";
+    setSources((prev) => [...prev, { id: uniqueSourceId(id, prev), label: label.trim() || url, url }]);
+    return null;
+  }, []);
+
+  const removeSource = useCallback((id: string) => {
+    setSources((prev) => prev.filter((s) => s.id !== id));
+    setActiveIds((prev) => prev.filter((a) => a !== id));
+  }, []);
+
+  const activeSources = sources.filter((s) => activeIds.includes(s.id));
+
+  return { sources, activeSources, toggleSource, soloSource, addSource, removeSource };
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import type { MissionManifest, MissionSummary } from "@/lib/mission-manifest";
+
+const MISSION_PARAM = "mission";
+
+const setMissionParam = (id: string | null) => {
+  const url = new URL(window.location.href);
+  if (id) {
+    url.searchParams.set(MISSION_PARAM, id);
+  } else {
+    url.searchParams.delete(MISSION_PARAM);
+  }
+  window.history.replaceState(null, "", url);
+};
+
+/**
+ * The mission manifests served by /api/missions, and the one the operator
+ * picked. The choice lives in the `?mission=` query parameter so a reload or
+ * a shared link opens the same exercise.
+ */
+export function useMission() {
+  const [missions, setMissions] = useState<MissionSummary[]>([]);
+  const [mission, setMission] = useState<MissionManifest | null>(null);
+  // undefined until the query parameter is read, null when it is absent,
+  // "" once the operator chose to go without a mission
+  const [selectedId, setSelectedId] = useState<string | null | undefined>(undefined);
+  // The operator reopened the picker; the current mission stays until they
+  // choose another
+  const [picking, setPicking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedId(new URL(window.location.href).searchParams.get(MISSION_PARAM));
+    fetch("/api/missions")
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then(setMissions)
+      .catch((err) => setError(`UNABLE TO LIST MISSIONS: ${err.message}`));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setMission(null);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/missions/${encodeURIComponent(selectedId)}`)
+      .then(async (res) => {
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`);
+        return body as MissionManifest;
+      })
+      .then((manifest) => {
+        if (!cancelled) setMission(manifest);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`UNABLE TO LOAD MISSION: ${err.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const select = useCallback((id: string | null) => {
+    setError(null);
+    setMissionParam(id);
+    setSelectedId(id ?? "");
+    setPicking(false);
+  }, []);
+
+  const openPicker = useCallback(() => setPicking(true), []);
+  const closePicker = useCallback(() => setPicking(false), []);
+
+  return {
+    missions,
+    mission,
+    // The picker is shown until a mission, or no mission, has been chosen,
+    // and again whenever it is reopened
+    choosing: selectedId === null || picking,
+    // Reopened over a choice already made, so it can be dismissed
+    picking,
+    error,
+    select,
+    openPicker,
+    closePicker,
+  };
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useCallback, useEffect, useReducer, useRef, useState } from "react";
+
+import { newOrderId, ORDER_ACK_TIMEOUT_MS, ordersReducer, type Order, type OrderDraft } from "@/lib/orders";
+import { buildOrderFrame, type AckFrame } from "@/lib/protocol";
+
+type Send = (frame: string) => Promise<boolean>;
+
+/**
+ * Sends orders up the open feed links and tracks each one in its own state,
+ * which feed resets don't touch: echoed as soon as it is issued, then settled
+ * by the server's ack or timed out after ORDER_ACK_TIMEOUT_MS. Feeds register
+ * their links with `setLink` while they are open.
+ */
+export function useOrders() {
+  const [orders, dispatch] = useReducer(ordersReducer, []);
+  const linksRef = useRef(new Map<string, Send>());
+  const [linked, setLinked] = useState<string[]>([]);
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  const setLink = useCallback((sourceId: string, send: Send | null) => {
+    if (send) {
+      linksRef.current.set(sourceId, send);
+    } else {
+      linksRef.current.delete(sourceId);
+    }
+    setLinked([...linksRef.current.keys()]);
+  }, []);
+
+  const undelivered = useCallback(
+    (order: Order) => dispatch({ type: "order", order: { ...order, status: "undelivered", updatedAt: Date.now() } }),
+    [dispatch],
+  );
+
+  // Echoed as sent straight away; marked undelivered if the link turns out
+  // not to have taken it
+  const transmit = useCallback(
+    (order: Order) => {
+      const send = order.source ? linksRef.current.get(order.source) : undefined;
+      if (!send) {
+        undelivered(order);
+        return;
+      }
+      dispatch({ type: "order", order: { ...order, status: "sent", updatedAt: Date.now() } });
+      clearTimeout(timersRef.current.get(order.id));
+      const timer = setTimeout(() => {
+        timersRef.current.delete(order.id);
+        dispatch({ type: "orderTimeout", id: order.id, at: Date.now() });
+      }, ORDER_ACK_TIMEOUT_MS);
+      timersRef.current.set(order.id, timer);
+      send(buildOrderFrame(order)).then((delivered) => {
+        if (delivered || timersRef.current.get(order.id) !== timer) return;
+        clearTimeout(timer);
+        timersRef.current.delete(order.id);
+        undelivered(order);
+      });
+    },
+    [dispatch, undelivered],
+  );
+
+  const issue = useCallback(
+    (draft: OrderDraft, source: string | null) => {
+      const issuedAt = Date.now();
+      transmit({ ...draft, id: newOrderId(), source, issuedAt, status: "sent", updatedAt: issuedAt, attempts: 1 });
+    },
+    [transmit],
+  );
+
+  // Resend under the same id, so the server can tell it is a repeat; on the
+  // link it was routed to, or any open one if that has gone
+  const retry = useCallback(
+    (order: Order) => {
+      const links = linksRef.current;
+      const source = order.source && links.has(order.source) ? order.source : ([...links.keys()][0] ?? null);
+      transmit({ ...order, source, reason: undefined, attempts: order.attempts + 1 });
+    },
+    [transmit],
+  );
+
+  const acknowledge = useCallback(
+    (ack: AckFrame) => {
+      clearTimeout(timersRef.current.get(ack.order_id));
+      timersRef.current.delete(ack.order_id);
+      dispatch({ type: "orderAck", ack, at: Date.now() });
+    },
+    [dispatch],
+  );
+
+  return { orders, linked, setLink, issue, retry, acknowledge };
+}
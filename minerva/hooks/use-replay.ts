@@ -0,0 +1,137 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from "react";
+
+import { feedReducer, frameToEvent, initialFeedState, type FeedEvent } from "@/lib/feed-state";
+import { getSessionFrames, type RecordedFrame, type SessionMeta } from "@/lib/session-store";
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 5, 10, 20] as const;
+
+// Long silences in a recording are skipped rather than waited out
+const MAX_REPLAY_GAP_MS = 30_000;
+
+// Mission time of each frame: its transmission timestamp, or the previous
+// frame's time for frames without one, never running backwards
+const missionTimes = (events: FeedEvent[], frames: RecordedFrame[]) => {
+  const times: number[] = [];
+  events.forEach((event, index) => {
+    const previous = index > 0 ? times[index - 1] : frames[0].receivedAt;
+    const own = event.type === "transmission" ? Date.parse(event.transmission.timestamp) : previous;
+    times.push(Math.max(previous, own));
+  });
+  return times;
+};
+
+/**
+ * Plays a recorded session back into its own feed state, so the live log is
+ * still there when the replay is closed. `position` is the number of frames
+ * applied so far; seeking backwards resets the replay state and re-applies
+ * the recording up to the new position in one batch.
+ */
+export function useReplay() {
+  const [state, dispatch] = useReducer(feedReducer, initialFeedState);
+  // The stored session being replayed, if the frames came from the store
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [name, setName] = useState<string | null>(null);
+  const [frames, setFrames] = useState<RecordedFrame[]>([]);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const positionRef = useRef(0);
+
+  const events = useMemo(() => frames.map(frameToEvent), [frames]);
+  const times = useMemo(() => (frames.length > 0 ? missionTimes(events, frames) : []), [events, frames]);
+
+  const seek = useCallback(
+    (target: number) => {
+      const next = Math.max(0, Math.min(events.length, target));
+      const current = positionRef.current;
+      if (next < current) {
+        dispatch({ type: "batch", events: [{ type: "reset" }, ...events.slice(0, next)] });
+      } else if (next > current) {
+        dispatch({ type: "batch", events: events.slice(current, next) });
+      }
+      positionRef.current = next;
+      setPosition(next);
+      if (next >= events.length) setPlaying(false);
+    },
+    [events],
+  );
+
+  const step = useCallback(() => seek(positionRef.current + 1), [seek]);
+
+  const loadFrames = useCallback((replayName: string, loaded: RecordedFrame[], id: string | null = null) => {
+    setPlaying(false);
+    setError(null);
+    dispatch({ type: "reset" });
+    positionRef.current = 0;
+    setPosition(0);
+    setFrames(loaded);
+    setSessionId(id);
+    setName(replayName);
+  }, []);
+
+  const load = useCallback(
+    async (session: Pick<SessionMeta, "id" | "name">) => {
+      setLoading(true);
+      setError(null);
+      try {
+        loadFrames(session.name, await getSessionFrames(session.id), session.id);
+      } catch (reason) {
+        setError(`Could not load ${session.name}: ${reason instanceof Error ? reason.message : String(reason)}`);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [loadFrames],
+  );
+
+  const unload = useCallback(() => {
+    setPlaying(false);
+    setFrames([]);
+    setSessionId(null);
+    setName(null);
+    positionRef.current = 0;
+    setPosition(0);
+    setError(null);
+    dispatch({ type: "reset" });
+  }, []);
+
+  // While playing, wait out the original spacing to the next frame
+  useEffect(() => {
+    if (!playing || position >= events.length) return;
+    const gap = position === 0 ? 0 : times[position] - times[position - 1];
+    const timer = setTimeout(step, Math.min(gap, MAX_REPLAY_GAP_MS) / speed);
+    return () => clearTimeout(timer);
+  }, [playing, position, events.length, times, speed, step]);
+
+  const missionTime = position > 0 ? times[position - 1] : (times[0] ?? null);
+
+  return {
+    state,
+    dispatch,
+    sessionId,
+    name,
+    loaded: name !== null,
+    loading,
+    error,
+    length: events.length,
+    position,
+    playing,
+    speed,
+    missionTime,
+    load,
+    loadFrames,
+    unload,
+    play: () => setPlaying(position < events.length),
+    pause: () => setPlaying(false),
+    step,
+    seek,
+    setSpeed,
+  };
+}
+
+export type Replay = ReturnType<typeof useReplay>;
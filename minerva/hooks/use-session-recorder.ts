@@ -0,0 +1,151 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  appendFrames,
+  createSession,
+  deleteSession,
+  exportSessionJsonl,
+  importSessionJsonl,
+  listSessions,
+  renameSession,
+  type RecordedFrame,
+  type SessionMeta,
+} from "@/lib/session-store";
+
+const FLUSH_INTERVAL_MS = 1_000;
+
+const defaultSessionName = (createdAt: number) =>
+  `SESSION ${new Date(createdAt).toISOString().slice(0, 19).replace("T", " ")}`;
+
+/**
+ * Records every frame received in this page into a new IndexedDB session,
+ * created lazily on the first frame and written in one-second batches, and
+ * exposes the operations behind the sessions browser.
+ */
+export function useSessionRecorder() {
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const pendingRef = useRef<RecordedFrame[]>([]);
+  const recordingIdRef = useRef<string | null>(null);
+  // The writes queued so far; each waits for the one before it
+  const flushRef = useRef<Promise<void>>(Promise.resolve());
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err) {
+      console.error("Unable to list sessions:", err);
+      setError("SESSION STORE UNAVAILABLE");
+    }
+  }, []);
+
+  const writePending = useCallback(async () => {
+    if (pendingRef.current.length === 0) return;
+    const batch = pendingRef.current;
+    pendingRef.current = [];
+    try {
+      // Read once: the recording may be closed while this write is under way
+      let id = recordingIdRef.current;
+      if (!id) {
+        const session = await createSession(defaultSessionName(batch[0].receivedAt), batch[0].receivedAt);
+        id = session.id;
+        recordingIdRef.current = id;
+        setRecordingId(id);
+      }
+      await appendFrames(id, batch);
+      await refresh();
+    } catch (err) {
+      console.error("Unable to record frames:", err);
+      setError("RECORDING FAILED");
+    }
+  }, [refresh]);
+
+  // Resolves once every frame recorded so far is written, including by a
+  // write that was already running
+  const flush = useCallback(() => {
+    const next = flushRef.current.then(writePending);
+    flushRef.current = next;
+    return next;
+  }, [writePending]);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      flush();
+    };
+  }, [refresh, flush]);
+
+  const record = useCallback((frame: RecordedFrame) => {
+    pendingRef.current.push(frame);
+  }, []);
+
+  // Close the current recording; the next frame starts a fresh session
+  const startNewSession = useCallback(async () => {
+    await flush();
+    recordingIdRef.current = null;
+    setRecordingId(null);
+  }, [flush]);
+
+  const rename = useCallback(
+    async (id: string, name: string) => {
+      await renameSession(id, name);
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      if (id === recordingIdRef.current) {
+        await startNewSession();
+      }
+      await deleteSession(id);
+      await refresh();
+    },
+    [refresh, startNewSession],
+  );
+
+  const exportJsonl = useCallback(async (session: SessionMeta) => {
+    const blob = new Blob([await exportSessionJsonl(session)], { type: "application/x-ndjson" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${session.name.replace(/[^\w.-]+/g, "_")}.jsonl`;
+    link.click();
+    // Revoking straight away can cancel the download before it starts
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }, []);
+
+  const importJsonl = useCallback(
+    async (file: File) => {
+      try {
+        await importSessionJsonl(await file.text(), file.name.replace(/\.jsonl$/i, ""));
+        setError(null);
+      } catch (err) {
+        setError(`IMPORT FAILED: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      await refresh();
+    },
+    [refresh],
+  );
+
+  return {
+    sessions,
+    recordingId,
+    error,
+    record,
+    startNewSession,
+    rename,
+    remove,
+    exportJsonl,
+    importJsonl,
+  };
+}
+
+export type SessionRecorder = ReturnType<typeof useSessionRecorder>;
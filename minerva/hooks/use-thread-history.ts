@@ -0,0 +1,35 @@
+"use client";
+
+import { useState } from "react";
+import { useThreadListItemRuntime, type LocalRuntimeOptions } from "@assistant-ui/react";
+
+import { loadThread, saveMessage, threadRepository } from "@/lib/thread-api";
+
+type ThreadHistoryAdapter = NonNullable<NonNullable<LocalRuntimeOptions["adapters"]>["history"]>;
+
+/**
+ * The `history` adapter for the thread this runtime runs under: loads its
+ * stored messages when it opens and saves each message the runtime appends.
+ * Must be called from the thread list's runtime hook, where the thread list
+ * item is known. A thread is only created on the server with its first
+ * message, and a failed save is logged rather than interrupting the chat.
+ */
+export function useThreadHistory(): ThreadHistoryAdapter {
+  const item = useThreadListItemRuntime();
+  const [adapter] = useState<ThreadHistoryAdapter>(() => ({
+    load: async () => {
+      const { remoteId } = item.getState();
+      if (!remoteId) return { messages: [] };
+      return threadRepository(await loadThread(remoteId));
+    },
+    append: async (entry) => {
+      try {
+        const { remoteId } = await item.initialize();
+        await saveMessage(remoteId, entry);
+      } catch (error) {
+        console.error("Saving the thread failed:", error);
+      }
+    },
+  }));
+  return adapter;
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  pointIndexAt,
+  toMissionTime,
+  toVideoTime,
+  type MissionClock,
+  type TimelinePoint,
+} from "@/lib/mission-clock";
+import { frameAt, snapToFrame, type VideoControls } from "@/lib/video-controls";
+
+const POLL_INTERVAL_MS = 250;
+
+type VideoSyncOptions = {
+  points: TimelinePoint[];
+  clock: MissionClock;
+  frameRate: number;
+};
+
+/**
+ * Follows the mission video's playhead and maps it onto the transmission
+ * timeline, so the log can highlight the current transmission and a click on
+ * a transmission can seek the video to it. Works against any VideoControls.
+ */
+export function useVideoSync({ points, clock, frameRate }: VideoSyncOptions) {
+  const playerRef = useRef<VideoControls | null>(null);
+  const [videoTime, setVideoTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(async () => {
+      const player = playerRef.current;
+      if (!player) return;
+      try {
+        const [time, length] = await Promise.all([player.getCurrentTime(), player.getDuration()]);
+        // The player may have gone while it answered
+        if (playerRef.current !== player) return;
+        setVideoTime(time);
+        setDuration(length);
+      } catch {
+        // A player that is still loading or being torn down; try the next tick
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const attach = useCallback((player: VideoControls | null) => {
+    playerRef.current = player;
+  }, []);
+
+  // Every seek lands on a frame boundary, whichever player is behind it
+  const seekVideo = useCallback(
+    (seconds: number) => {
+      const target = snapToFrame(seconds, frameRate);
+      playerRef.current?.seekTo(target);
+      setVideoTime(target);
+    },
+    [frameRate],
+  );
+
+  const stepFrames = useCallback(
+    async (frames: number) => {
+      const player = playerRef.current;
+      if (!player) return;
+      player.pause();
+      try {
+        const frame = frameAt(await player.getCurrentTime(), frameRate);
+        if (playerRef.current !== player) return;
+        seekVideo((frame + frames) / frameRate);
+      } catch {
+        // The player went away or isn't ready yet; the step is simply lost
+      }
+    },
+    [frameRate, seekVideo],
+  );
+
+  const play = useCallback(() => playerRef.current?.play(), []);
+  const pause = useCallback(() => playerRef.current?.pause(), []);
+
+  const seekToMission = useCallback(
+    (missionTime: number) => seekVideo(toVideoTime(clock, missionTime)),
+    [clock, seekVideo],
+  );
+
+  const missionTime = toMissionTime(clock, videoTime);
+  // Nothing is "current" until the video has actually moved
+  const currentIndex = videoTime > 0 ? pointIndexAt(points, missionTime) : -1;
+
+  return {
+    attach,
+    videoTime,
+    duration,
+    missionTime,
+    currentKey: currentIndex >= 0 ? points[currentIndex].key : null,
+    frameRate,
+    play,
+    pause,
+    stepFrames,
+    seekVideo,
+    seekToMission,
+  };
+}
+
+export type VideoSync = ReturnType<typeof useVideoSync>;
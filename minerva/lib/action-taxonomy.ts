@@ -0,0 +1,151 @@
+import { z } from "zod";
+
+import type { LogEntry } from "@/lib/feed-state";
+import { categorySchema, type Category } from "@/lib/protocol";
+
+// How simulator actions are named, grouped and drawn across the dashboard.
+// Entries are keyed by the `action` a transmission reports (which is also the
+// key of its influence analysis). `codes` lists the simulator action codes
+// that arrive as `action_mapping` for that action. A mission manifest can
+// add groups and actions, or override the defaults, with its own `taxonomy`.
+
+export const actionGroupSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  icon: z.string().min(1),
+});
+
+export const actionTypeSchema = z.object({
+  action: z.string().min(1),
+  label: z.string().min(1),
+  group: z.string().min(1),
+  // Falls back to the group's icon
+  icon: z.string().optional(),
+  // What the action usually means for the mission, shown in the legend
+  category: categorySchema.optional(),
+  codes: z.array(z.string()).default([]),
+});
+
+export const actionTaxonomySchema = z.object({
+  groups: z.array(actionGroupSchema).default([]),
+  actions: z.array(actionTypeSchema).default([]),
+});
+
+export type ActionGroup = z.infer<typeof actionGroupSchema>;
+export type ActionType = z.infer<typeof actionTypeSchema>;
+export type ActionTaxonomy = z.infer<typeof actionTaxonomySchema>;
+
+// Where actions the taxonomy doesn't know end up
+export const OTHER_GROUP: ActionGroup = { id: "other", label: "OTHER", icon: "◇" };
+
+export const DEFAULT_ACTION_TAXONOMY: ActionTaxonomy = {
+  groups: [
+    { id: "maneuver", label: "MANEUVER", icon: "➤" },
+    { id: "fires", label: "FIRES", icon: "✸" },
+    { id: "recon", label: "RECON", icon: "◎" },
+    { id: "defense", label: "DEFENSE", icon: "◆" },
+    { id: "sustainment", label: "SUSTAINMENT", icon: "⌂" },
+  ],
+  actions: [
+    { action: "PATROL", label: "Patrol", group: "maneuver", category: "neutral", codes: ["CAP_ORBIT"] },
+    { action: "ADVANCE", label: "Advance", group: "maneuver", category: "neutral", codes: ["MOVE_TACTICAL"] },
+    { action: "BREACH", label: "Breach", group: "maneuver", category: "negative", codes: ["BREACH_OBSTACLE"] },
+    {
+      action: "ENGAGE",
+      label: "Engage",
+      group: "fires",
+      icon: "✹",
+      category: "negative",
+      codes: ["DIRECT_FIRE", "DEFENSIVE_MANEUVER"],
+    },
+    { action: "SUPPRESS", label: "Suppress", group: "fires", category: "negative", codes: ["INDIRECT_FIRE"] },
+    { action: "RECON", label: "Reconnaissance", group: "recon", category: "neutral", codes: ["ISR_TRACK"] },
+    { action: "HOLD", label: "Hold Position", group: "defense", category: "positive", codes: ["DEFEND"] },
+    { action: "RETURN TO BASE", label: "Return to Base", group: "sustainment", category: "positive", codes: ["RTB"] },
+  ],
+};
+
+// Actions and action codes are compared in this form everywhere, so "patrol"
+// on the feed finds PATROL in the taxonomy and "rtb" finds its RTB code
+export const actionKey = (value: string) => value.trim().toUpperCase();
+
+// Later entries replace earlier ones with the same id or action
+export function mergeTaxonomies(base: ActionTaxonomy, override?: ActionTaxonomy): ActionTaxonomy {
+  if (!override) return base;
+  const byKey = <T>(items: T[], key: (item: T) => string) => [
+    ...new Map(items.map((item) => [key(item), item])).values(),
+  ];
+  return {
+    groups: byKey([...base.groups, ...override.groups], (group) => group.id),
+    actions: byKey([...base.actions, ...override.actions], (type) => actionKey(type.action)),
+  };
+}
+
+export type ActionDescriptor = {
+  action: string;
+  label: string;
+  icon: string;
+  group: ActionGroup;
+  // Position of the group in the taxonomy, for sorting
+  groupOrder: number;
+  category: Category | null;
+  // In actionKey form
+  codes: string[];
+  known: boolean;
+};
+
+export type DescribeAction = (action: string) => ActionDescriptor;
+
+// Lookup for display; actions are matched by actionKey
+export function actionDescriber(taxonomy: ActionTaxonomy): DescribeAction {
+  const groups = new Map(taxonomy.groups.map((group, idx) => [group.id, { group, order: idx }]));
+  const types = new Map(taxonomy.actions.map((type) => [actionKey(type.action), type]));
+  return (action) => {
+    const type = types.get(actionKey(action));
+    if (!type) {
+      return {
+        action,
+        label: action,
+        icon: OTHER_GROUP.icon,
+        group: OTHER_GROUP,
+        groupOrder: taxonomy.groups.length,
+        category: null,
+        codes: [],
+        known: false,
+      };
+    }
+    const { group, order } = groups.get(type.group) ?? { group: OTHER_GROUP, order: taxonomy.groups.length };
+    return {
+      action,
+      label: type.label,
+      icon: type.icon ?? group.icon,
+      group,
+      groupOrder: order,
+      category: type.category ?? null,
+      codes: type.codes.map(actionKey),
+      known: true,
+    };
+  };
+}
+
+// Group order first, then display name, so related actions sit together
+export const compareActions = (describe: DescribeAction) => (a: string, b: string) => {
+  const left = describe(a);
+  const right = describe(b);
+  return left.groupOrder - right.groupOrder || left.label.localeCompare(right.label);
+};
+
+// action_mapping codes actually seen on the feed, with counts, per action;
+// both keyed by actionKey
+export function observedMappings(log: LogEntry[]): Map<string, Map<string, number>> {
+  const mappings = new Map<string, Map<string, number>>();
+  for (const entry of log) {
+    if (entry.kind !== "transmission" || !entry.transmission.action_mapping) continue;
+    const action = actionKey(entry.transmission.action);
+    const code = actionKey(entry.transmission.action_mapping);
+    const codes = mappings.get(action) ?? new Map<string, number>();
+    codes.set(code, (codes.get(code) ?? 0) + 1);
+    mappings.set(action, codes);
+  }
+  return mappings;
+}
@@ -0,0 +1,204 @@
+import { NARRATIVE_SECTIONS, type AfterActionReport, type NarrativeSection } from "@/lib/after-action";
+import { formatClockTime } from "@/lib/format";
+
+// The after-action report as Markdown, and as a standalone HTML page to print.
+// Both render the same sections, in the same order.
+
+type ReportTable = { columns: string[]; rows: string[][] };
+
+type ReportSection = {
+  heading: string;
+  lines?: string[];
+  table?: ReportTable;
+  // Model-drafted Markdown
+  narrative?: string;
+};
+
+const KIND_LABELS = { start: "Start", contact: "Contact", negative: "Setback", end: "End" } as const;
+
+const clock = (time: string | null) => (time ? `${formatClockTime(time)} UTC` : "--");
+
+function narrativeSection(report: AfterActionReport, id: NarrativeSection): ReportSection {
+  const heading = NARRATIVE_SECTIONS.find((section) => section.id === id)!.heading;
+  if (!report.narrative) {
+    return { heading, lines: [`Narrative unavailable: ${report.narrativeError ?? "the model did not answer"}.`] };
+  }
+  return { heading, narrative: report.narrative[id] || "The model left this section empty." };
+}
+
+function reportSections(report: AfterActionReport): ReportSection[] {
+  const { stats } = report;
+  const total = stats.transmissionCount || 1;
+  const share = (count: number) => `${count} (${Math.round((count / total) * 100)}%)`;
+  return [
+    {
+      heading: "Summary",
+      lines: [
+        ...(stats.mission ? [`Mission: ${stats.mission.name}, sector ${stats.mission.sector}`] : []),
+        `Window: ${clock(stats.start)} to ${clock(stats.end)} (${stats.durationMinutes} min)`,
+        `Transmissions: ${stats.transmissionCount} from ${stats.units.filter((unit) => unit.transmissions > 0).length} units`,
+        `Enemy contacts: ${stats.contacts.length}`,
+      ],
+      table: {
+        columns: ["Outcome", "Transmissions"],
+        rows: (["positive", "negative", "neutral"] as const).map((category) => [
+          category,
+          share(stats.outcomes[category]),
+        ]),
+      },
+    },
+    narrativeSection(report, "overview"),
+    {
+      heading: "Timeline of Key Events",
+      table: {
+        columns: ["Time", "Event", "Unit", "Action", "Detail", "Message"],
+        rows: stats.timeline.map((event) => [
+          clock(event.time),
+          KIND_LABELS[event.kind],
+          event.callSign,
+          event.action,
+          event.summary,
+          event.key,
+        ]),
+      },
+    },
+    {
+      heading: "Units",
+      table: {
+        columns: ["Call sign", "Vehicle", "Unit", "Reports", "Positive", "Negative", "Neutral", "Enemies", "Last report"],
+        rows: stats.units.map((unit) => [
+          unit.callSign + (unit.listed ? "" : " (unlisted)"),
+          unit.vehicle,
+          unit.unit ?? "",
+          String(unit.transmissions),
+          String(unit.outcomes.positive),
+          String(unit.outcomes.negative),
+          String(unit.outcomes.neutral),
+          unit.enemies.join(", "),
+          clock(unit.lastReport),
+        ]),
+      },
+    },
+    {
+      heading: "Enemy Contacts",
+      table: {
+        columns: ["Enemy", "First seen", "Last seen", "Engaged by", "Positive", "Negative", "Neutral"],
+        rows: stats.contacts.map((contact) => [
+          contact.enemy,
+          clock(contact.firstSeen),
+          clock(contact.lastSeen),
+          contact.engagedBy.join(", "),
+          String(contact.outcomes.positive),
+          String(contact.outcomes.negative),
+          String(contact.outcomes.neutral),
+        ]),
+      },
+    },
+    {
+      heading: "Influence Shifts",
+      table: {
+        columns: ["Time", "Action", "Shift", "Message"],
+        rows: stats.influenceShifts.map((shift) => [clock(shift.time), shift.action, shift.summary, shift.key]),
+      },
+    },
+    narrativeSection(report, "assessment"),
+    narrativeSection(report, "recommendations"),
+  ];
+}
+
+const generatedLine = (report: AfterActionReport) =>
+  `Generated ${report.generatedAt.replace("T", " ").slice(0, 19)} UTC. Statistics are computed from the session; ` +
+  `narrative drafted by ${report.model}.`;
+
+const markdownCell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+export function reportMarkdown(report: AfterActionReport): string {
+  const out = [`# ${report.title}`, "", `_${generatedLine(report)}_`];
+  for (const section of reportSections(report)) {
+    out.push("", `## ${section.heading}`, "");
+    if (section.lines) out.push(...section.lines.map((line) => `- ${line}`), "");
+    if (section.narrative) out.push(section.narrative.replace(/^#{1,2}(?=\s)/gm, "###"), "");
+    if (section.table) {
+      if (section.table.rows.length === 0) {
+        out.push("None.", "");
+      } else {
+        out.push(
+          `| ${section.table.columns.join(" | ")} |`,
+          `|${section.table.columns.map(() => "---").join("|")}|`,
+          ...section.table.rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+          "",
+        );
+      }
+    }
+  }
+  return out.join("\n").replace(/\n{3,}/g, "\n\n").trimEnd() + "\n";
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const inlineHtml = (text: string) => escapeHtml(text).replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>");
+
+// Enough Markdown for a drafted narrative: paragraphs, bullet lists, bold
+function narrativeHtml(markdown: string): string {
+  return markdown
+    .split(/\n{2,}/)
+    .map((block) => {
+      const lines = block.split("\n").filter((line) => line.trim());
+      if (lines.length > 0 && lines.every((line) => /^\s*[-*]\s/.test(line))) {
+        return `<ul>${lines.map((line) => `<li>${inlineHtml(line.replace(/^\s*[-*]\s/, ""))}</li>`).join("")}</ul>`;
+      }
+      const heading = lines.length === 1 && lines[0].match(/^#{1,6}\s+(.*)$/);
+      if (heading) return `<h3>${inlineHtml(heading[1])}</h3>`;
+      return `<p>${lines.map(inlineHtml).join("<br>")}</p>`;
+    })
+    .join("\n");
+}
+
+const PRINT_STYLES = `
+  body { font: 11pt/1.45 ui-monospace, Menlo, Consolas, monospace; color: #111; margin: 2rem auto; max-width: 60rem; padding: 0 1rem; }
+  h1 { font-size: 1.4rem; text-transform: uppercase; letter-spacing: 0.05em; border-bottom: 2px solid #14532d; padding-bottom: 0.3rem; }
+  h2 { font-size: 1.1rem; text-transform: uppercase; letter-spacing: 0.05em; color: #14532d; margin-top: 1.6rem; break-after: avoid; }
+  table { border-collapse: collapse; width: 100%; font-size: 9pt; margin: 0.5rem 0; }
+  th, td { border: 1px solid #999; padding: 0.2rem 0.4rem; text-align: left; vertical-align: top; }
+  th { background: #e7efe9; }
+  tr { break-inside: avoid; }
+  .meta { color: #555; font-style: italic; }
+  .print { float: right; font: inherit; padding: 0.2rem 0.8rem; }
+  @media print { body { margin: 0; max-width: none; } .print { display: none; } }
+`;
+
+export function reportHtml(report: AfterActionReport): string {
+  const body = reportSections(report)
+    .map((section) => {
+      const parts = [`<h2>${escapeHtml(section.heading)}</h2>`];
+      if (section.lines) parts.push(`<ul>${section.lines.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>`);
+      if (section.narrative) parts.push(narrativeHtml(section.narrative));
+      if (section.table) {
+        parts.push(
+          section.table.rows.length === 0
+            ? "<p>None.</p>"
+            : `<table><thead><tr>${section.table.columns.map((column) => `<th>${escapeHtml(column)}</th>`).join("")}</tr></thead><tbody>${section.table.rows
+                .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`)
+                .join("")}</tbody></table>`,
+        );
+      }
+      return `<section>${parts.join("\n")}</section>`;
+    })
+    .join("\n");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print</button>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">${escapeHtml(generatedLine(report))}</p>
+${body}
+</body>
+</html>
+`;
+}
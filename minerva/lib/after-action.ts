@@ -0,0 +1,232 @@
+import { buildContactBoard } from "@/lib/enemy-contacts";
+import type { InfluenceSnapshot } from "@/lib/influence-history";
+import type { Category } from "@/lib/protocol";
+import { logOf, summarizeContacts, type SessionContext } from "@/lib/session-query";
+import { buildRoster } from "@/lib/unit-roster";
+
+// The after-action report (AAR) of a session. Everything countable is
+// computed here, the same way every time; only the narrative sections are
+// drafted by the chat model, from these statistics.
+
+export type KeyEventKind = "start" | "contact" | "negative" | "end";
+
+export type KeyEvent = {
+  // Message id of the transmission, as the assistant cites it
+  key: string;
+  time: string;
+  kind: KeyEventKind;
+  callSign: string;
+  action: string;
+  summary: string;
+};
+
+export type UnitSummary = {
+  callSign: string;
+  vehicle: string;
+  unit?: string;
+  listed: boolean;
+  transmissions: number;
+  outcomes: Record<Category, number>;
+  actions: Record<string, number>;
+  enemies: string[];
+  firstReport: string | null;
+  lastReport: string | null;
+};
+
+export type InfluenceShift = {
+  key: string;
+  time: string;
+  action: string;
+  kind: "lead-feature" | "visibility";
+  summary: string;
+};
+
+export type AfterActionStats = {
+  mission: SessionContext["mission"];
+  start: string | null;
+  end: string | null;
+  durationMinutes: number;
+  transmissionCount: number;
+  outcomes: Record<Category, number>;
+  timeline: KeyEvent[];
+  units: UnitSummary[];
+  contacts: ReturnType<typeof summarizeContacts>;
+  influenceShifts: InfluenceShift[];
+};
+
+export const NARRATIVE_SECTIONS = [
+  { id: "overview", heading: "Overview" },
+  { id: "assessment", heading: "Assessment" },
+  { id: "recommendations", heading: "Recommendations" },
+] as const;
+
+export type NarrativeSection = (typeof NARRATIVE_SECTIONS)[number]["id"];
+
+export type AfterActionReport = {
+  title: string;
+  generatedAt: string;
+  // The model that drafted the narrative
+  model: string;
+  stats: AfterActionStats;
+  // Null when the model failed; the statistics stand on their own
+  narrative: Record<NarrativeSection, string> | null;
+  narrativeError?: string;
+};
+
+// A change in visibility at least this large counts as a shift
+export const VISIBILITY_SHIFT = 0.1;
+
+const emptyOutcomes = (): Record<Category, number> => ({ positive: 0, negative: 0, neutral: 0 });
+
+const isoTime = (time: number) => new Date(time).toISOString();
+
+const leadFeature = (snapshot: InfluenceSnapshot, action: string) =>
+  snapshot.analysis[action]?.top_3_overall.features[0] ?? null;
+
+// For each action, where its leading feature changed or its visibility moved
+// by VISIBILITY_SHIFT or more since the previous analysis of it
+export function influenceShifts(history: InfluenceSnapshot[]): InfluenceShift[] {
+  const previous = new Map<string, InfluenceSnapshot>();
+  const shifts: InfluenceShift[] = [];
+  for (const snapshot of history) {
+    for (const action of Object.keys(snapshot.analysis)) {
+      const before = previous.get(action);
+      previous.set(action, snapshot);
+      if (!before) continue;
+      const at = { key: snapshot.key, time: isoTime(snapshot.time), action };
+      const [from, to] = [leadFeature(before, action), leadFeature(snapshot, action)];
+      if (from !== to) {
+        shifts.push({ ...at, kind: "lead-feature", summary: `Leading feature changed from ${from} to ${to}` });
+      }
+      const [was, now] = [before.analysis[action].visibility, snapshot.analysis[action].visibility];
+      for (const measure of ["legacy", "dynasty"] as const) {
+        const delta = now[measure] - was[measure];
+        if (Math.abs(delta) >= VISIBILITY_SHIFT) {
+          shifts.push({
+            ...at,
+            kind: "visibility",
+            summary: `${measure} visibility ${delta > 0 ? "rose" : "fell"} from ${was[measure].toFixed(2)} to ${now[measure].toFixed(2)}`,
+          });
+        }
+      }
+    }
+  }
+  return shifts;
+}
+
+export function afterActionStats(context: SessionContext): AfterActionStats {
+  const log = logOf(context);
+  const transmissions = [...context.transmissions].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const times = transmissions.map((transmission) => Date.parse(transmission.timestamp));
+  const start = times.length > 0 ? times[0] : null;
+  const end = times.length > 0 ? times[times.length - 1] : null;
+
+  const outcomes = emptyOutcomes();
+  const perUnit = new Map<string, Pick<UnitSummary, "outcomes" | "actions" | "firstReport" | "lastReport">>();
+  for (const transmission of transmissions) {
+    outcomes[transmission.category] += 1;
+    const unit = perUnit.get(transmission.callSign) ?? {
+      outcomes: emptyOutcomes(),
+      actions: {},
+      firstReport: transmission.timestamp,
+      lastReport: null,
+    };
+    unit.outcomes[transmission.category] += 1;
+    unit.actions[transmission.action] = (unit.actions[transmission.action] ?? 0) + 1;
+    unit.lastReport = transmission.timestamp;
+    perUnit.set(transmission.callSign, unit);
+  }
+
+  const units = buildRoster(log, context.roster, (transmission) => Date.parse(transmission.timestamp)).map(
+    (status): UnitSummary => ({
+      callSign: status.callSign,
+      vehicle: status.vehicle,
+      unit: status.unit,
+      listed: status.listed,
+      transmissions: status.messageCount,
+      enemies: status.enemies,
+      ...(perUnit.get(status.callSign) ?? {
+        outcomes: emptyOutcomes(),
+        actions: {},
+        firstReport: null,
+        lastReport: null,
+      }),
+    }),
+  );
+
+  // Mission start and end, each enemy's first contact, and every setback
+  const firstContacts = new Set(buildContactBoard(log).map((contact) => contact.events[0]?.key));
+  const timeline = transmissions.flatMap((transmission, idx): KeyEvent[] => {
+    const event = {
+      key: transmission.key,
+      time: transmission.timestamp,
+      callSign: transmission.callSign,
+      action: transmission.action,
+    };
+    const events: KeyEvent[] = [];
+    if (idx === 0) events.push({ ...event, kind: "start", summary: `First report: ${transmission.explanation}` });
+    if (firstContacts.has(transmission.key)) {
+      events.push({ ...event, kind: "contact", summary: `First contact with ${transmission.enemy}` });
+    }
+    if (transmission.category === "negative") events.push({ ...event, kind: "negative", summary: transmission.explanation });
+    if (idx > 0 && idx === transmissions.length - 1) {
+      events.push({ ...event, kind: "end", summary: `Last report: ${transmission.explanation}` });
+    }
+    return events;
+  });
+
+  const history: InfluenceSnapshot[] = context.transmissions.flatMap((transmission) =>
+    transmission.influence_analysis
+      ? [{ key: transmission.key, time: Date.parse(transmission.timestamp), analysis: transmission.influence_analysis }]
+      : [],
+  );
+
+  return {
+    mission: context.mission,
+    start: start === null ? null : isoTime(start),
+    end: end === null ? null : isoTime(end),
+    durationMinutes: start === null || end === null ? 0 : Math.round((end - start) / 60_000),
+    transmissionCount: transmissions.length,
+    outcomes,
+    timeline,
+    units,
+    contacts: summarizeContacts(context),
+    influenceShifts: influenceShifts(history),
+  };
+}
+
+export const reportTitle = (stats: AfterActionStats) =>
+  stats.mission ? `After-Action Report: ${stats.mission.name} (${stats.mission.sector})` : "After-Action Report";
+
+// The prompt's first line; the mock model looks for it
+export const NARRATIVE_PROMPT_LEAD = "Draft the narrative sections of an after-action report for this training exercise.";
+
+// What the chat model is asked for: the statistics, and the sections to write
+export function narrativePrompt(stats: AfterActionStats): string {
+  return [
+    NARRATIVE_PROMPT_LEAD,
+    `Write exactly these sections, each under a Markdown level-2 heading: ${NARRATIVE_SECTIONS.map(
+      (section) => `## ${section.heading}`,
+    ).join(", ")}.`,
+    "Use only the statistics below. Cite transmissions by message id in square brackets, e.g. [delta-sector-12].",
+    "",
+    "```json",
+    JSON.stringify(stats, null, 2),
+    "```",
+  ].join("\n");
+}
+
+// Split the model's reply into the sections asked for; any it skipped are empty
+export function parseNarrative(text: string): Record<NarrativeSection, string> {
+  const narrative = Object.fromEntries(NARRATIVE_SECTIONS.map((section) => [section.id, ""])) as Record<
+    NarrativeSection,
+    string
+  >;
+  const parts = text.split(/^##[ \t]+(.+)$/m);
+  for (let idx = 1; idx < parts.length; idx += 2) {
+    const heading = parts[idx].trim().toLowerCase();
+    const section = NARRATIVE_SECTIONS.find((candidate) => candidate.heading.toLowerCase() === heading);
+    if (section) narrative[section.id] = parts[idx + 1].trim();
+  }
+  return narrative;
+}
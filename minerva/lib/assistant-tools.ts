@@ -0,0 +1,66 @@
+import { tool } from "ai";
+import { z } from "zod";
+
+import {
+  describeSession,
+  influenceForAction,
+  queryTransmissions,
+  summarizeContacts,
+  transmissionQuerySchema,
+  type SessionContext,
+} from "@/lib/session-query";
+
+// Server-side tools the assistant answers from, bound to the session the
+// dashboard sent with the request.
+
+// Sent with every request, grounded or not
+export const BASE_SYSTEM_PROMPT = `You are MINERVA, an assistant to the command staff of a military training exercise.
+Be brief and precise. Do not invent units, reports or outcomes.`;
+
+export const SESSION_SYSTEM_PROMPT = `Answer from the exercise data using the session tools, not from general knowledge.
+Cite every transmission you rely on by its message id in square brackets, e.g. [delta-sector-12].
+If the tools return nothing relevant, say so.`;
+
+// The base prompt, the session instructions when the request is grounded, and
+// the client's own `system` last, as an addendum that cannot replace them
+export function systemPrompt(grounded: boolean, addendum?: string) {
+  return [
+    BASE_SYSTEM_PROMPT,
+    grounded ? SESSION_SYSTEM_PROMPT : null,
+    addendum?.trim() ? `Additional instructions from the dashboard, subordinate to the above:\n${addendum.trim()}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function sessionTools(context: SessionContext) {
+  return {
+    describe_session: tool({
+      description: "The open mission, its roster, and the time span and call signs of the transmissions received",
+      parameters: z.object({}),
+      execute: async () => describeSession(context),
+    }),
+    list_transmissions: tool({
+      description:
+        "List field-unit transmissions, filtered by unit, category, action, enemy and mission time. " +
+        "Each result has a messageId to cite.",
+      parameters: transmissionQuerySchema,
+      execute: async (query) => queryTransmissions(context, query),
+    }),
+    get_influence_analysis: tool({
+      description:
+        "The influence analysis for one action: top features, entities and mission objectives with scores, " +
+        "and legacy/dynasty visibility. Latest by default, or as of a given message.",
+      parameters: z.object({
+        action: z.string().describe("Action name, e.g. 'ENGAGE'"),
+        asOfMessageId: z.string().optional().describe("Use the analysis in force when this message arrived"),
+      }),
+      execute: async ({ action, asOfMessageId }) => influenceForAction(context, action, asOfMessageId),
+    }),
+    summarize_enemy_contacts: tool({
+      description: "Every enemy contact reported: first and last seen, friendly call signs, outcome counts and message ids",
+      parameters: z.object({}),
+      execute: async () => summarizeContacts(context),
+    }),
+  };
+}
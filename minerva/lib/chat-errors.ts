@@ -0,0 +1,42 @@
+// The error contract of /api/chat. Every failure is a JSON body with a
+// readable `error`, a stable `code` the UI can branch on and, for a rejected
+// request, which fields were wrong. Shared by the route and the dashboard.
+
+export type ChatErrorCode =
+  | "invalid_json"
+  | "invalid_request"
+  | "model_not_allowed"
+  | "provider_error";
+
+export type ChatErrorIssue = { path: string; message: string };
+
+export type ChatError = {
+  error: string;
+  code: ChatErrorCode;
+  issues?: ChatErrorIssue[];
+};
+
+export const chatErrorResponse = (status: number, body: ChatError) => Response.json(body, { status });
+
+const isChatError = (value: unknown): value is ChatError =>
+  typeof value === "object" && value !== null && typeof (value as ChatError).error === "string";
+
+// One line for the operator, from a failed response's status and body text
+export function describeChatError(status: number, text: string): string {
+  let body: unknown = null;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not ours, e.g. a proxy's error page
+  }
+  if (!isChatError(body)) return `HTTP ${status}`;
+  const issues = body.issues?.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+  return issues?.length ? `${body.error} (${issues.join("; ")})` : body.error;
+}
+
+// The same for errors thrown by the assistant runtime, which look like
+// "Status 400: <body>"
+export function chatErrorMessage(error: Error): string {
+  const match = error.message.match(/^Status (\d+): ([\s\S]*)$/);
+  return match ? describeChatError(Number(match[1]), match[2]) : error.message;
+}
@@ -0,0 +1,55 @@
+import { coreMessageSchema, type LanguageModelV1 } from "ai";
+import { z } from "zod";
+
+import { chatErrorResponse, type ChatErrorIssue } from "@/lib/chat-errors";
+import { ModelNotAllowedError, resolveModel } from "@/lib/model-provider";
+import { sessionContextSchema } from "@/lib/session-query";
+
+// What /api/chat accepts. Anything else in the body, such as the run config
+// and call settings the assistant runtime sends along, is dropped.
+
+const MAX_MESSAGES = 200;
+const MAX_ADDENDUM_LENGTH = 2000;
+const MAX_CLIENT_TOOLS = 16;
+
+// A tool the browser runs itself; the model only sees its schema
+const clientToolSchema = z.object({
+  description: z.string().max(1000).optional(),
+  parameters: z.object({ type: z.literal("object") }).passthrough(),
+});
+
+export const chatRequestSchema = z.object({
+  messages: z.array(coreMessageSchema).min(1).max(MAX_MESSAGES),
+  // An addendum to the server's system prompt, never a replacement
+  system: z.string().max(MAX_ADDENDUM_LENGTH).optional(),
+  tools: z
+    .record(z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, "Invalid tool name"), clientToolSchema)
+    .refine((tools) => Object.keys(tools).length <= MAX_CLIENT_TOOLS, `At most ${MAX_CLIENT_TOOLS} tools`)
+    .default({}),
+  // Without a session the assistant answers ungrounded
+  session: sessionContextSchema.optional(),
+  // Which exercise session the usage counters are kept under
+  sessionId: z.string().min(1).max(128).default("anonymous"),
+  model: z.string().optional(),
+});
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+
+export const requestIssues = (error: z.ZodError): ChatErrorIssue[] =>
+  error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+
+// The requested model, or the error response to send instead
+export function modelForRequest(requested?: string): LanguageModelV1 | Response {
+  try {
+    return resolveModel(requested);
+  } catch (error) {
+    if (error instanceof ModelNotAllowedError) {
+      return chatErrorResponse(400, { error: error.message, code: "model_not_allowed" });
+    }
+    console.error("Chat model is misconfigured:", error);
+    return chatErrorResponse(500, {
+      error: error instanceof Error ? error.message : "Chat model is misconfigured",
+      code: "provider_error",
+    });
+  }
+}
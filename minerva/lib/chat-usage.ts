@@ -0,0 +1,91 @@
+// Per-session request and token counters for /api/chat, so exercise control
+// can budget assistant use. They live in server memory and reset when the
+// server restarts.
+
+// Session ids come from the client, so the table is capped; past this many
+// sessions the least recently active one is dropped
+export const MAX_TRACKED_SESSIONS = 1_000;
+
+export type ChatUsage = {
+  sessionId: string;
+  requests: number;
+  // Requests whose model call failed part way
+  failed: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  firstRequestAt: string;
+  lastRequestAt: string;
+};
+
+export type ChatUsageTotals = Omit<ChatUsage, "sessionId" | "firstRequestAt" | "lastRequestAt"> & {
+  sessions: number;
+};
+
+// On globalThis so the chat and stats routes share one table, even when the
+// dev server bundles them separately. Kept in order of last activity, least
+// recent first.
+const store = globalThis as typeof globalThis & { minervaChatUsage?: Map<string, ChatUsage> };
+const usage = (store.minervaChatUsage ??= new Map());
+
+const entryFor = (sessionId: string) => {
+  let entry = usage.get(sessionId);
+  if (entry) {
+    usage.delete(sessionId);
+    usage.set(sessionId, entry);
+  } else {
+    if (usage.size >= MAX_TRACKED_SESSIONS) usage.delete(usage.keys().next().value);
+    const now = new Date().toISOString();
+    entry = {
+      sessionId,
+      requests: 0,
+      failed: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      firstRequestAt: now,
+      lastRequestAt: now,
+    };
+    usage.set(sessionId, entry);
+  }
+  return entry;
+};
+
+export function recordRequest(sessionId: string) {
+  const entry = entryFor(sessionId);
+  entry.requests += 1;
+  entry.lastRequestAt = new Date().toISOString();
+}
+
+// Some providers don't report usage; their counts stay at zero
+export function recordTokens(sessionId: string, tokens: { promptTokens: number; completionTokens: number }) {
+  const entry = entryFor(sessionId);
+  const prompt = Number.isFinite(tokens.promptTokens) ? tokens.promptTokens : 0;
+  const completion = Number.isFinite(tokens.completionTokens) ? tokens.completionTokens : 0;
+  entry.promptTokens += prompt;
+  entry.completionTokens += completion;
+  entry.totalTokens += prompt + completion;
+}
+
+export function recordFailure(sessionId: string) {
+  entryFor(sessionId).failed += 1;
+}
+
+export const sessionUsage = (sessionId: string): ChatUsage | null => usage.get(sessionId) ?? null;
+
+// Most recently active first
+export const allSessionUsage = (): ChatUsage[] =>
+  [...usage.values()].sort((a, b) => b.lastRequestAt.localeCompare(a.lastRequestAt));
+
+export function usageTotals(): ChatUsageTotals {
+  const totals = { sessions: 0, requests: 0, failed: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  for (const entry of usage.values()) {
+    totals.sessions += 1;
+    totals.requests += entry.requests;
+    totals.failed += entry.failed;
+    totals.promptTokens += entry.promptTokens;
+    totals.completionTokens += entry.completionTokens;
+    totals.totalTokens += entry.totalTokens;
+  }
+  return totals;
+}
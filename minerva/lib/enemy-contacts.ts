@@ -0,0 +1,52 @@
+import type { LogEntry } from "@/lib/feed-state";
+import type { Category } from "@/lib/protocol";
+
+// Enemy contacts grouped by the `enemy` identifier units report, in mission
+// time, for the contact board and the after-action review.
+
+export type ContactEvent = {
+  key: string;
+  time: number;
+  callSign: string;
+  action: string;
+  category: Category;
+};
+
+export type EnemyContact = {
+  enemy: string;
+  firstSeen: number;
+  lastSeen: number;
+  // Friendly call signs that reported this contact, in order of first report
+  callSigns: string[];
+  outcomes: Record<Category, number>;
+  events: ContactEvent[];
+};
+
+export function buildContactBoard(log: LogEntry[]): EnemyContact[] {
+  const contacts = new Map<string, EnemyContact>();
+  for (const entry of log) {
+    if (entry.kind !== "transmission" || !entry.transmission.enemy) continue;
+    const { enemy, callSign, action, category, timestamp } = entry.transmission;
+    const time = Date.parse(timestamp);
+    const contact = contacts.get(enemy) ?? {
+      enemy,
+      firstSeen: time,
+      lastSeen: time,
+      callSigns: [],
+      outcomes: { positive: 0, negative: 0, neutral: 0 },
+      events: [],
+    };
+    contacts.set(enemy, {
+      ...contact,
+      firstSeen: Math.min(contact.firstSeen, time),
+      lastSeen: Math.max(contact.lastSeen, time),
+      callSigns: contact.callSigns.includes(callSign) ? contact.callSigns : [...contact.callSigns, callSign],
+      outcomes: { ...contact.outcomes, [category]: contact.outcomes[category] + 1 },
+      events: [...contact.events, { key: entry.key, time, callSign, action, category }],
+    });
+  }
+  // Feeds can deliver out of order, so sort once everything is in
+  return [...contacts.values()]
+    .map((contact) => ({ ...contact, events: [...contact.events].sort((a, b) => a.time - b.time) }))
+    .sort((a, b) => a.firstSeen - b.firstSeen);
+}
@@ -0,0 +1,259 @@
+import WebSocket from "ws";
+
+import { FALLBACK_UPSTREAM, gatewayPath, parseFeedSources, type FeedSource } from "@/lib/feed-sources";
+import { missionFeedSources } from "@/lib/mission-store";
+import { ORDER_ACK_TIMEOUT_MS } from "@/lib/orders";
+import { PING_FRAME, buildResumeFrame, isPongFrame, parseAckFrame } from "@/lib/protocol";
+
+// The server side of the feed gateway. Each configured feed gets one upstream
+// WebSocket, however many browsers watch it. Frames are numbered as they
+// arrive and the last GATEWAY_BUFFER_SIZE are kept, so a viewer that connects
+// late, or reconnects with a Last-Event-ID, is caught up from the buffer. If
+// the simulator restarts and starts its ids over, the buffer is dropped and
+// viewers are told with a "restart" event; so is a viewer that comes back
+// with a cursor from before the restart.
+//
+//   MINERVA_GATEWAY_FEEDS  feeds the gateway serves, as LABEL=ws://host:port,...
+//                          (default: the DELTA SECTOR simulator on port 8765)
+//
+// Simulators named by mission manifests are served as well, so a mission's
+// viewers share one link too.
+
+export const GATEWAY_BUFFER_SIZE = 500;
+
+const HEARTBEAT_INTERVAL_MS = 10_000;
+const HEARTBEAT_TIMEOUT_MS = 25_000;
+const INITIAL_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+// Keep the upstream link, and so the buffer, warm this long after the last
+// viewer leaves
+const IDLE_CLOSE_MS = 60_000;
+
+export type UpstreamStatus = "connecting" | "open" | "reconnecting" | "idle";
+
+export type BufferedFrame = { seq: number; raw: string };
+
+export type GatewayEvent =
+  | ({ type: "frame" } & BufferedFrame)
+  | { type: "status"; upstream: UpstreamStatus }
+  // The upstream ids started over; what came before can't be resumed
+  | { type: "restart" };
+
+// Whether an order reached the simulator, and its ack frame if one came in time
+export type OrderResult = { delivered: false } | { delivered: true; ack: string | null };
+
+export type FeedGateway = {
+  source: FeedSource;
+  status: () => UpstreamStatus;
+  // Buffered frames after `lastSeq`, or all of them. A cursor the buffer no
+  // longer reaches, or from before a server restart, gets the whole buffer.
+  since: (lastSeq: number | null) => BufferedFrame[];
+  // Whether the ids have started over since the frame at `lastSeq`, so a
+  // viewer resuming from it has to be told before it is caught up
+  startedOverSince: (lastSeq: number | null) => boolean;
+  // Live events from now on; returns the unsubscribe function
+  subscribe: (viewer: (event: GatewayEvent) => void) => () => void;
+  // Forward an order upstream and wait for its ack. The ack goes back to the
+  // sender alone, never to the buffer or the other viewers.
+  sendOrder: (frame: string, orderId: string) => Promise<OrderResult>;
+};
+
+// The feed's own message id, for dropping duplicates after a resume
+const messageIdOf = (raw: string): number | null => {
+  try {
+    const id = JSON.parse(raw)?.id;
+    return Number.isInteger(id) ? id : null;
+  } catch {
+    return null;
+  }
+};
+
+function createGateway(source: FeedSource): FeedGateway {
+  const buffer: BufferedFrame[] = [];
+  const viewers = new Set<(event: GatewayEvent) => void>();
+  // Orders sent through the gateway that are waiting for their ack, by id
+  const pendingAcks = new Map<string, (ack: string | null) => void>();
+  let seq = 0;
+  // The last seq before the current id sequence began
+  let runStartSeq = 0;
+  let lastMessageId: number | null = null;
+  let status: UpstreamStatus = "idle";
+  let socket: WebSocket | null = null;
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const broadcast = (event: GatewayEvent) => viewers.forEach((viewer) => viewer(event));
+
+  const transition = (next: UpstreamStatus) => {
+    if (status === next) return;
+    status = next;
+    broadcast({ type: "status", upstream: next });
+  };
+
+  // Forget the old id sequence and the frames that carried it
+  const startOver = () => {
+    lastMessageId = null;
+    buffer.length = 0;
+    runStartSeq = seq;
+  };
+
+  const connect = () => {
+    transition(attempt === 0 ? "connecting" : "reconnecting");
+    const ws = new WebSocket(source.url);
+    socket = ws;
+    let lastSeen = Date.now();
+    // A resumed stream carries on after lastMessageId; a first id at or below
+    // it means the simulator started over
+    let firstFrame = true;
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+    ws.on("open", () => {
+      attempt = 0;
+      lastSeen = Date.now();
+      transition("open");
+      if (lastMessageId !== null) ws.send(buildResumeFrame(lastMessageId));
+      heartbeatTimer = setInterval(() => {
+        if (Date.now() - lastSeen > HEARTBEAT_TIMEOUT_MS) {
+          console.warn(`Feed gateway ${source.id}: no heartbeat from ${source.url}, reconnecting`);
+          ws.terminate();
+          return;
+        }
+        ws.send(PING_FRAME);
+      }, HEARTBEAT_INTERVAL_MS);
+    });
+
+    ws.on("message", (data) => {
+      lastSeen = Date.now();
+      const raw = String(data);
+      if (isPongFrame(raw)) return;
+      const ack = parseAckFrame(raw);
+      if (ack) {
+        const settle = pendingAcks.get(ack.order_id);
+        if (settle) {
+          settle(raw);
+        } else {
+          console.warn(`Feed gateway ${source.id}: ack for unknown order ${ack.order_id}`);
+        }
+        return;
+      }
+      // Resume duplicates are dropped here, once, for every viewer
+      const id = messageIdOf(raw);
+      if (id !== null) {
+        if (firstFrame && lastMessageId !== null && id <= lastMessageId) {
+          console.warn(
+            `Feed gateway ${source.id}: ${source.url} started over at #${id} (last #${lastMessageId}), resetting`,
+          );
+          startOver();
+          broadcast({ type: "restart" });
+        }
+        firstFrame = false;
+        if (lastMessageId !== null && id <= lastMessageId) return;
+        lastMessageId = id;
+      }
+      seq += 1;
+      buffer.push({ seq, raw });
+      if (buffer.length > GATEWAY_BUFFER_SIZE) buffer.shift();
+      broadcast({ type: "frame", seq, raw });
+    });
+
+    ws.on("error", (error) => {
+      console.warn(`Feed gateway ${source.id}: ${error.message}`);
+    });
+
+    ws.on("close", () => {
+      clearInterval(heartbeatTimer);
+      if (socket !== ws) return;
+      socket = null;
+      const delay = Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** attempt);
+      attempt += 1;
+      transition("reconnecting");
+      reconnectTimer = setTimeout(connect, delay);
+    });
+  };
+
+  const stop = () => {
+    clearTimeout(reconnectTimer);
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    attempt = 0;
+    // Nobody is left to resume for, and the simulator may be gone by the time
+    // the next viewer arrives
+    if (lastMessageId !== null) console.log(`Feed gateway ${source.id}: idle, resetting after #${lastMessageId}`);
+    startOver();
+    transition("idle");
+  };
+
+  return {
+    source,
+    status: () => status,
+    since: (lastSeq) => {
+      if (lastSeq === null || lastSeq > seq || (buffer.length > 0 && lastSeq < buffer[0].seq - 1)) return [...buffer];
+      return buffer.filter((frame) => frame.seq > lastSeq);
+    },
+    startedOverSince: (lastSeq) => lastSeq !== null && lastSeq <= runStartSeq,
+    subscribe: (viewer) => {
+      clearTimeout(idleTimer);
+      viewers.add(viewer);
+      if (status === "idle") connect();
+      return () => {
+        viewers.delete(viewer);
+        if (viewers.size === 0) idleTimer = setTimeout(stop, IDLE_CLOSE_MS);
+      };
+    },
+    sendOrder: (frame, orderId) => {
+      const ws = socket;
+      if (!ws || ws.readyState !== WebSocket.OPEN) return Promise.resolve({ delivered: false });
+      return new Promise((resolve) => {
+        let timer: ReturnType<typeof setTimeout> | undefined = undefined;
+        // A retry under the same id takes over from the earlier wait
+        const settle = (ack: string | null) => {
+          clearTimeout(timer);
+          if (pendingAcks.get(orderId) === settle) pendingAcks.delete(orderId);
+          resolve({ delivered: true, ack });
+        };
+        timer = setTimeout(() => settle(null), ORDER_ACK_TIMEOUT_MS);
+        pendingAcks.set(orderId, settle);
+        ws.send(frame);
+      });
+    },
+  };
+}
+
+// The configured feeds, then any mission simulator none of them already
+// reaches. A mission whose id is taken by another feed gets a prefixed one.
+export async function gatewayFeeds(): Promise<FeedSource[]> {
+  const configured = parseFeedSources(process.env.MINERVA_GATEWAY_FEEDS);
+  const feeds = configured.length > 0 ? configured : [FALLBACK_UPSTREAM];
+  for (const mission of await missionFeedSources()) {
+    if (feeds.some((feed) => feed.url === mission.url)) continue;
+    const id = feeds.some((feed) => feed.id === mission.id) ? `mission-${mission.id}` : mission.id;
+    feeds.push({ ...mission, id });
+  }
+  return feeds;
+}
+
+// Where a dashboard reaches this simulator through the gateway
+export async function gatewayUrlFor(url: string): Promise<string | null> {
+  const feed = (await gatewayFeeds()).find((candidate) => candidate.url === url);
+  return feed ? gatewayPath(feed.id) : null;
+}
+
+// On globalThis so every route shares the one upstream link per feed, even
+// when the dev server bundles them separately
+const store = globalThis as typeof globalThis & { minervaFeedGateways?: Map<string, FeedGateway> };
+const gateways = (store.minervaFeedGateways ??= new Map());
+
+// A feed nobody has watched yet has no link, so it is idle
+export const gatewayStatus = (id: string): UpstreamStatus => gateways.get(id)?.status() ?? "idle";
+
+export async function gatewayFor(id: string): Promise<FeedGateway | null> {
+  const existing = gateways.get(id);
+  if (existing) return existing;
+  const source = (await gatewayFeeds()).find((feed) => feed.id === id);
+  if (!source) return null;
+  const gateway = createGateway(source);
+  gateways.set(id, gateway);
+  return gateway;
+}
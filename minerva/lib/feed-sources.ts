@@ -0,0 +1,98 @@
+// Field-unit feeds the dashboard can subscribe to. Each simulator instance
+// runs one exercise and is addressed by its own WebSocket URL, or by the feed
+// gateway's /api/feed/<id> when the server proxies it.
+
+export type FeedSource = {
+  id: string;
+  label: string;
+  url: string;
+};
+
+// A simulator's own socket, as opposed to a path on the feed gateway
+export const isSocketUrl = (url: string) => /^wss?:\/\//i.test(url);
+
+export const gatewayPath = (id: string) => `/api/feed/${id}`;
+
+// A feed on the gateway: /api/feed/<id>, on this server or another one
+export function isGatewayUrl(url: string): boolean {
+  try {
+    const { protocol, pathname } = new URL(url, "http://localhost");
+    return /^https?:$/.test(protocol) && /^\/api\/feed\/[^/]+$/.test(pathname);
+  } catch {
+    return false;
+  }
+}
+
+// Why the dashboard can't subscribe to this URL, or null if it can: a
+// simulator socket (ws:// or wss://) or a feed on the gateway
+export function feedUrlError(url: string): string | null {
+  if (isGatewayUrl(url)) return null;
+  if (!isSocketUrl(url)) return "Use a ws:// or wss:// URL, or /api/feed/<id>";
+  try {
+    new URL(url);
+    return null;
+  } catch {
+    return "Not a valid URL";
+  }
+}
+
+// The simulator the feed gateway proxies when none are configured
+export const FALLBACK_UPSTREAM: FeedSource = {
+  id: "delta-sector",
+  label: "DELTA SECTOR",
+  url: "ws://localhost:8765",
+};
+
+// Dashboards reach it through the gateway, so they work from any machine
+export const FALLBACK_FEED_SOURCE: FeedSource = {
+  ...FALLBACK_UPSTREAM,
+  url: gatewayPath(FALLBACK_UPSTREAM.id),
+};
+
+export const slugify = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+// `id`, or `id-2`, `id-3`… if a source already has it
+export function uniqueSourceId(id: string, sources: FeedSource[]): string {
+  let candidate = id;
+  for (let n = 2; sources.some((source) => source.id === candidate); n++) {
+    candidate = `${id}-${n}`;
+  }
+  return candidate;
+}
+
+/**
+ * Parses a feed list of the form `LABEL=ws://host:port,LABEL=/api/feed/<id>`.
+ * An entry without a label uses its URL as the label.
+ */
+export function parseFeedSources(value: string | undefined): FeedSource[] {
+  if (!value) return [];
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf("=");
+      const label = separator > 0 ? entry.slice(0, separator).trim() : entry;
+      const url = separator > 0 ? entry.slice(separator + 1).trim() : entry;
+      return { id: slugify(label) || slugify(url), label, url };
+    });
+}
+
+// Configured at build time through NEXT_PUBLIC_FEED_SOURCES
+export function getDefaultFeedSources(): FeedSource[] {
+  const configured = parseFeedSources(process.env.NEXT_PUBLIC_FEED_SOURCES);
+  return configured.length > 0 ? configured : [FALLBACK_FEED_SOURCE];
+}
+
+export const isFeedSource = (value: unknown): value is FeedSource =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as FeedSource).id === "string" &&
+  typeof (value as FeedSource).label === "string" &&
+  typeof (value as FeedSource).url === "string";
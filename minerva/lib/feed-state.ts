@@ -0,0 +1,154 @@
+import type { InfluenceSnapshot } from "@/lib/influence-history";
+import type { Order } from "@/lib/orders";
+import { parseFrame, type QuarantinedFrame, type Transmission } from "@/lib/protocol";
+import type { RecordedFrame } from "@/lib/session-store";
+
+// Everything the dashboard derives from a feed, built by folding feed events.
+// Live sockets and session replay both go through feedReducer, so replaying
+// a recording (or seeking backwards and re-folding it) produces the same
+// state the operator saw live.
+
+// Keep at most this many rejected frames around for inspection
+export const MAX_QUARANTINED_FRAMES = 50;
+
+export type LogEntry =
+  | { kind: "transmission"; key: string; transmission: Transmission }
+  | { kind: "system"; key: string; content: string; at: number }
+  // An outgoing order, merged into the displayed log where it was issued;
+  // orders are kept apart from the feed state (see ordersReducer)
+  | { kind: "order"; key: string; order: Order };
+
+export type FeedState = {
+  log: LogEntry[];
+  // Every influence analysis received, in arrival order
+  influenceHistory: InfluenceSnapshot[];
+  quarantinedFrames: QuarantinedFrame[];
+  // Where each feed's id sequence has got to, by source
+  sequences: Record<string, FeedSequence>;
+};
+
+// A feed's ids only go up, except when the simulator starts over (the
+// connection lets repeats through only then). Each start opens a new run, so
+// the new ids get keys of their own instead of the earlier run's.
+export type FeedSequence = { run: number; lastId: number };
+
+export type FeedEvent =
+  | { type: "transmission"; transmission: Transmission }
+  | { type: "quarantine"; frame: QuarantinedFrame }
+  | { type: "system"; content: string; at: number }
+  | { type: "clearQuarantine" }
+  | { type: "reset" }
+  | { type: "batch"; events: FeedEvent[] };
+
+export const initialFeedState: FeedState = {
+  log: [],
+  influenceHistory: [],
+  quarantinedFrames: [],
+  sequences: {},
+};
+
+// Source ids are slugs, so the dot can't be confused with part of one
+export const transmissionKey = (transmission: Pick<Transmission, "source" | "id">, run = 0) =>
+  run === 0 ? `${transmission.source}-${transmission.id}` : `${transmission.source}.${run}-${transmission.id}`;
+
+const nextSequence = (previous: FeedSequence | undefined, id: number): FeedSequence => {
+  if (!previous) return { run: 0, lastId: id };
+  return { run: id <= previous.lastId ? previous.run + 1 : previous.run, lastId: id };
+};
+
+// Folds a batch copying the log and the influence history once, instead of
+// once per event; seeking through a long recording would otherwise be
+// quadratic. Other events go through feedReducer, whose results are fresh
+// arrays that are safe to keep appending to.
+function foldBatch(state: FeedState, events: FeedEvent[]): FeedState {
+  let next: FeedState = {
+    ...state,
+    log: [...state.log],
+    influenceHistory: [...state.influenceHistory],
+    sequences: { ...state.sequences },
+  };
+  for (const event of events) {
+    switch (event.type) {
+      case "transmission": {
+        const { transmission } = event;
+        const sequence = nextSequence(next.sequences[transmission.source], transmission.id);
+        next.sequences[transmission.source] = sequence;
+        const key = transmissionKey(transmission, sequence.run);
+        next.log.push({ kind: "transmission", key, transmission });
+        if (transmission.influence_analysis) {
+          next.influenceHistory.push({
+            key,
+            time: Date.parse(transmission.timestamp),
+            analysis: transmission.influence_analysis,
+          });
+        }
+        break;
+      }
+      case "system":
+        next.log.push({
+          kind: "system",
+          key: `system-${event.at}-${next.log.length}`,
+          content: event.content,
+          at: event.at,
+        });
+        break;
+      case "reset":
+        next = { ...initialFeedState, log: [], influenceHistory: [], sequences: {} };
+        break;
+      case "batch":
+        next = foldBatch(next, event.events);
+        break;
+      default:
+        next = feedReducer(next, event);
+    }
+  }
+  return next;
+}
+
+export function feedReducer(state: FeedState, event: FeedEvent): FeedState {
+  switch (event.type) {
+    case "transmission": {
+      const { transmission } = event;
+      const sequence = nextSequence(state.sequences[transmission.source], transmission.id);
+      const key = transmissionKey(transmission, sequence.run);
+      return {
+        ...state,
+        sequences: { ...state.sequences, [transmission.source]: sequence },
+        log: [...state.log, { kind: "transmission", key, transmission }],
+        influenceHistory: transmission.influence_analysis
+          ? [
+              ...state.influenceHistory,
+              { key, time: Date.parse(transmission.timestamp), analysis: transmission.influence_analysis },
+            ]
+          : state.influenceHistory,
+      };
+    }
+    case "quarantine":
+      return {
+        ...state,
+        quarantinedFrames: [event.frame, ...state.quarantinedFrames].slice(0, MAX_QUARANTINED_FRAMES),
+      };
+    case "system":
+      return {
+        ...state,
+        log: [
+          ...state.log,
+          { kind: "system", key: `system-${event.at}-${state.log.length}`, content: event.content, at: event.at },
+        ],
+      };
+    case "clearQuarantine":
+      return { ...state, quarantinedFrames: [] };
+    case "reset":
+      return initialFeedState;
+    case "batch":
+      return foldBatch(state, event.events);
+  }
+}
+
+// The event a recorded frame produces, exactly as if it had just arrived
+export function frameToEvent({ source, receivedAt, raw }: RecordedFrame): FeedEvent {
+  const result = parseFrame(raw, receivedAt);
+  return result.ok
+    ? { type: "transmission", transmission: { ...result.message, source, receivedAt } }
+    : { type: "quarantine", frame: { ...result.frame, source } };
+}
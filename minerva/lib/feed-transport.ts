@@ -0,0 +1,139 @@
+import { isGatewayUrl, isSocketUrl } from "@/lib/feed-sources";
+import { PING_FRAME, buildResumeFrame, isPongFrame } from "@/lib/protocol";
+
+// How the dashboard reaches a feed: straight to the simulator's WebSocket
+// (ws:// or wss://), or through the server's feed gateway (/api/feed/<id>)
+// over Server-Sent Events. useFeedConnection drives both the same way.
+
+export type FeedTransportHandlers = {
+  onOpen: () => void;
+  // Any traffic at all, heartbeats included
+  onAlive: () => void;
+  // A data frame, valid or not; never a heartbeat
+  onFrame: (raw: string) => void;
+  // The gateway's own link to the simulator dropped or came back
+  onUpstream: (open: boolean) => void;
+  // The gateway's simulator started its ids over; the next frame begins anew
+  onRestart: () => void;
+  // The link is gone; not called after close()
+  onClose: () => void;
+};
+
+export type FeedTransport = {
+  heartbeat: () => void;
+  // Ask for everything after the last message id seen
+  resume: (lastId: number) => void;
+  // Resolves to whether the frame reached the server
+  send: (frame: string) => Promise<boolean>;
+  close: () => void;
+};
+
+// Where a gateway stream left off, kept across reconnects
+export type FeedCursor = { lastEventId: string | null };
+
+function openSocket(url: string, handlers: FeedTransportHandlers): FeedTransport {
+  const ws = new WebSocket(url);
+  ws.onopen = handlers.onOpen;
+  ws.onmessage = (event) => {
+    handlers.onAlive();
+    const raw = String(event.data);
+    if (!isPongFrame(raw)) handlers.onFrame(raw);
+  };
+  ws.onerror = (error) => {
+    console.error("WebSocket error:", error);
+  };
+  ws.onclose = handlers.onClose;
+
+  const send = (frame: string) => {
+    if (ws.readyState !== WebSocket.OPEN) return false;
+    ws.send(frame);
+    return true;
+  };
+  return {
+    heartbeat: () => send(PING_FRAME),
+    resume: (lastId) => send(buildResumeFrame(lastId)),
+    send: async (frame) => send(frame),
+    close: () => {
+      ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+      ws.close();
+    },
+  };
+}
+
+function openGateway(url: string, handlers: FeedTransportHandlers, cursor: FeedCursor): FeedTransport {
+  const streamUrl = new URL(url, window.location.href);
+  // A fresh EventSource can't set Last-Event-ID itself, so the gateway also
+  // takes it as a query parameter
+  if (cursor.lastEventId) streamUrl.searchParams.set("lastEventId", cursor.lastEventId);
+  const source = new EventSource(streamUrl);
+  // Open once the gateway reports its upstream link up
+  let open = false;
+  let upstream = false;
+
+  source.addEventListener("status", (event) => {
+    handlers.onAlive();
+    try {
+      upstream = JSON.parse(event.data).upstream === "open";
+    } catch {
+      return;
+    }
+    if (open) {
+      handlers.onUpstream(upstream);
+    } else if (upstream) {
+      open = true;
+      handlers.onOpen();
+    }
+  });
+  source.addEventListener("frame", (event) => {
+    if (event.lastEventId) cursor.lastEventId = event.lastEventId;
+    handlers.onAlive();
+    handlers.onFrame(event.data);
+  });
+  source.addEventListener("heartbeat", handlers.onAlive);
+  source.addEventListener("restart", () => {
+    handlers.onAlive();
+    handlers.onRestart();
+  });
+  // EventSource would retry on its own; the connection's backoff decides instead
+  source.onerror = () => {
+    source.close();
+    handlers.onClose();
+  };
+
+  return {
+    // The gateway sends its own heartbeats, and resumes upstream itself
+    heartbeat: () => {},
+    resume: () => {},
+    // The gateway answers once the order's ack is in, or it gave up waiting.
+    // The ack comes back with the response rather than on the shared stream,
+    // so only the viewer that sent the order sees it.
+    send: async (frame) => {
+      if (!open || !upstream) return false;
+      try {
+        const res = await fetch(new URL(streamUrl.pathname, streamUrl), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: frame,
+        });
+        if (!res.ok) {
+          console.error(`Feed gateway refused a frame: HTTP ${res.status}`);
+          return false;
+        }
+        const { ack } = await res.json();
+        if (typeof ack === "string") handlers.onFrame(ack);
+        return true;
+      } catch (error) {
+        console.error("Feed gateway unreachable:", error);
+        return false;
+      }
+    },
+    close: () => source.close(),
+  };
+}
+
+// Throws for a URL that is neither a socket nor a gateway feed
+export function openFeedTransport(url: string, handlers: FeedTransportHandlers, cursor: FeedCursor): FeedTransport {
+  if (isSocketUrl(url)) return openSocket(url, handlers);
+  if (isGatewayUrl(url)) return openGateway(url, handlers, cursor);
+  throw new Error(`Not a feed URL: ${url}`);
+}
@@ -0,0 +1,5 @@
+// Military-style HH:MM:SS clock readout, always in UTC
+export function formatClockTime(value: string | number | Date): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "--:--:--" : date.toISOString().slice(11, 19);
+}
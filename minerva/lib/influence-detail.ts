@@ -0,0 +1,47 @@
+import type { LogEntry } from "@/lib/feed-state";
+import { rankedEntries, type Ranked, type RankedEntry } from "@/lib/influence-heatmap";
+import { rankedSchema, type ActionInfluence, type Transmission } from "@/lib/protocol";
+
+// Everything one action's influence payload carries, for the drill-down view:
+// the known rankings in full, any further rankings the simulator adds beside
+// `top_3`, and whatever other fields came through untouched.
+
+export type Ranking = { name: string; entries: RankedEntry[] };
+
+const KNOWN_FIELDS = new Set(["top_3_overall", "entities", "mission", "visibility"]);
+
+// A field that looks like a ranking and holds up as one; fields beside
+// `top_3` arrive unvalidated, so a malformed list is dropped here rather
+// than reaching the view
+const asRanked = (value: unknown): Ranked | null => {
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    !["features", "labels", "scores"].some((field) => Array.isArray((value as Record<string, unknown>)[field]))
+  ) {
+    return null;
+  }
+  const parsed = rankedSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
+
+// `top_3` first, then any other ranked lists in the group, e.g. a full `all`
+export function rankingsOf(group: Record<string, unknown>): Ranking[] {
+  return Object.entries(group)
+    .flatMap(([name, value]) => {
+      const ranked = asRanked(value);
+      return ranked ? [{ name, entries: rankedEntries(ranked) }] : [];
+    })
+    .sort((a, b) => (a.name === "top_3" ? -1 : b.name === "top_3" ? 1 : a.name.localeCompare(b.name)));
+}
+
+export const otherFieldsOf = (influence: ActionInfluence): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(influence).filter(([field]) => !KNOWN_FIELDS.has(field)));
+
+// The transmissions whose reported action is this one, in log order
+export const transmissionsFor = (log: LogEntry[], action: string) =>
+  log.flatMap((entry): { key: string; transmission: Transmission }[] =>
+    entry.kind === "transmission" && entry.transmission.action === action
+      ? [{ key: entry.key, transmission: entry.transmission }]
+      : [],
+  );
@@ -0,0 +1,107 @@
+import type { ActionInfluence, InfluenceAnalysis } from "@/lib/protocol";
+
+// Flattens one influence analysis into an actions × factors matrix: the top
+// overall features, the top entities, the top mission objectives and the two
+// visibility scores, each a column group. Factors an action doesn't rank in
+// its top three are left empty rather than treated as zero.
+
+export type HeatmapGroup = "feature" | "entity" | "mission" | "visibility";
+
+export const HEATMAP_GROUPS: { group: HeatmapGroup; label: string }[] = [
+  { group: "feature", label: "FEATURES" },
+  { group: "entity", label: "ENTITIES" },
+  { group: "mission", label: "MISSION" },
+  { group: "visibility", label: "VISIBILITY" },
+];
+
+export type HeatmapColumn = {
+  id: string;
+  group: HeatmapGroup;
+  label: string;
+};
+
+export type Heatmap = {
+  rows: string[];
+  columns: HeatmapColumn[];
+  // Score by action, then by column id
+  cells: Record<string, Record<string, number>>;
+  min: number;
+  max: number;
+};
+
+export type Ranked = { features?: string[]; labels?: string[]; scores?: number[] };
+
+export type RankedEntry = { label: string; score: number | null };
+
+// Pair each ranked name with its score; labels win over raw feature names
+export function rankedEntries(ranked: Ranked): RankedEntry[] {
+  const names = ranked.labels ?? ranked.features ?? [];
+  const length = Math.max(names.length, ranked.scores?.length ?? 0);
+  return Array.from({ length }, (_, idx) => ({
+    label: names[idx] ?? `#${idx + 1}`,
+    score: ranked.scores?.[idx] ?? null,
+  }));
+}
+
+const factorsOf = (influence: ActionInfluence): [HeatmapGroup, RankedEntry[]][] => [
+  ["feature", rankedEntries(influence.top_3_overall)],
+  ["entity", rankedEntries(influence.entities.top_3)],
+  ["mission", rankedEntries(influence.mission.top_3)],
+  [
+    "visibility",
+    [
+      { label: "legacy", score: influence.visibility.legacy },
+      { label: "dynasty", score: influence.visibility.dynasty },
+    ],
+  ],
+];
+
+export function buildHeatmap(analysis: InfluenceAnalysis): Heatmap {
+  const columns = new Map<string, HeatmapColumn>();
+  const cells: Heatmap["cells"] = {};
+  let min = Infinity;
+  let max = -Infinity;
+  for (const [action, influence] of Object.entries(analysis)) {
+    cells[action] = {};
+    for (const [group, entries] of factorsOf(influence)) {
+      for (const { label, score } of entries) {
+        const id = `${group}:${label}`;
+        if (!columns.has(id)) columns.set(id, { id, group, label });
+        if (score === null) continue;
+        cells[action][id] = score;
+        min = Math.min(min, score);
+        max = Math.max(max, score);
+      }
+    }
+  }
+  const groupOrder = HEATMAP_GROUPS.map(({ group }) => group);
+  return {
+    rows: Object.keys(analysis),
+    // Grouped, then alphabetical, so columns stay put from one snapshot to the next
+    columns: [...columns.values()].sort(
+      (a, b) => groupOrder.indexOf(a.group) - groupOrder.indexOf(b.group) || a.label.localeCompare(b.label),
+    ),
+    cells,
+    min: Number.isFinite(min) ? min : 0,
+    max: Number.isFinite(max) ? max : 1,
+  };
+}
+
+// Highest first; empty cells sink to the end
+const byScore = (a: number | undefined, b: number | undefined) => (b ?? -Infinity) - (a ?? -Infinity);
+
+export const sortRowsBy = (heatmap: Heatmap, columnId: string) =>
+  [...heatmap.rows].sort((a, b) => byScore(heatmap.cells[a][columnId], heatmap.cells[b][columnId]));
+
+// Columns are only reordered within their group, so the group headers hold
+export const sortColumnsBy = (heatmap: Heatmap, row: string) =>
+  [...heatmap.columns].sort(
+    (a, b) =>
+      HEATMAP_GROUPS.findIndex(({ group }) => group === a.group) -
+        HEATMAP_GROUPS.findIndex(({ group }) => group === b.group) ||
+      byScore(heatmap.cells[row][a.id], heatmap.cells[row][b.id]),
+  );
+
+// Position of a score between the smallest and largest in the matrix, 0 to 1
+export const heatLevel = (heatmap: Heatmap, score: number) =>
+  heatmap.max > heatmap.min ? (score - heatmap.min) / (heatmap.max - heatmap.min) : 1;
@@ -0,0 +1,71 @@
+import type { LogEntry } from "@/lib/feed-state";
+import type { InfluenceAnalysis } from "@/lib/protocol";
+
+// Influence analyses as they arrived over the mission, each keyed to the
+// transmission that carried it, so trends can be read back per action.
+
+export type InfluenceSnapshot = {
+  // Key of the carrying transmission in the feed log
+  key: string;
+  // Mission time of that transmission
+  time: number;
+  analysis: InfluenceAnalysis;
+};
+
+export type InfluencePoint = {
+  key: string;
+  time: number;
+  entityTop: number | null;
+  missionTop: number | null;
+  legacy: number;
+  dynasty: number;
+};
+
+export const latestInfluence = (history: InfluenceSnapshot[]): InfluenceAnalysis | null =>
+  history.length > 0 ? history[history.length - 1].analysis : null;
+
+// Every action that appears in any snapshot, in order of first appearance
+export function actionsOf(history: InfluenceSnapshot[]): string[] {
+  const actions = new Set<string>();
+  for (const snapshot of history) {
+    for (const action of Object.keys(snapshot.analysis)) actions.add(action);
+  }
+  return [...actions];
+}
+
+// One point per snapshot that analysed `action`, in mission-time order
+export function actionSeries(history: InfluenceSnapshot[], action: string): InfluencePoint[] {
+  return history
+    .flatMap(({ key, time, analysis }) => {
+      const influence = analysis[action];
+      if (!influence) return [];
+      return [
+        {
+          key,
+          time,
+          entityTop: influence.entities.top_3.scores?.[0] ?? null,
+          missionTop: influence.mission.top_3.scores?.[0] ?? null,
+          legacy: influence.visibility.legacy,
+          dynasty: influence.visibility.dynasty,
+        },
+      ];
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+// The analysis in force when the transmission `key` arrived: its own, or the
+// last one carried by an earlier frame if it had none
+export function snapshotAsOf(log: LogEntry[], key: string): InfluenceSnapshot | null {
+  let snapshot: InfluenceSnapshot | null = null;
+  for (const entry of log) {
+    if (entry.kind === "transmission" && entry.transmission.influence_analysis) {
+      snapshot = {
+        key: entry.key,
+        time: Date.parse(entry.transmission.timestamp),
+        analysis: entry.transmission.influence_analysis,
+      };
+    }
+    if (entry.key === key) return snapshot;
+  }
+  return null;
+}
@@ -0,0 +1,122 @@
+import type { LogEntry } from "@/lib/feed-state";
+import { formatClockTime } from "@/lib/format";
+import type { Category, Transmission } from "@/lib/protocol";
+
+// Filters over the transmission log. Every facet combines with AND; within a
+// facet, any selected value matches. Empty facets match everything.
+
+export type EnemyFilter = "any" | "present" | "absent";
+
+export type LogFilter = {
+  categories: Category[];
+  vehicles: string[];
+  callSigns: string[];
+  actions: string[];
+  enemy: EnemyFilter;
+  // UTC time of day, HH:MM or HH:MM:SS; a range with from > to wraps midnight
+  from: string;
+  to: string;
+  // Whitespace-separated terms, all of which must appear in the explanation
+  text: string;
+};
+
+export const emptyLogFilter: LogFilter = {
+  categories: [],
+  vehicles: [],
+  callSigns: [],
+  actions: [],
+  enemy: "any",
+  from: "",
+  to: "",
+  text: "",
+};
+
+export const searchTerms = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => term.length > 0);
+
+export const isFilterActive = (filter: LogFilter) =>
+  filter.categories.length > 0 ||
+  filter.vehicles.length > 0 ||
+  filter.callSigns.length > 0 ||
+  filter.actions.length > 0 ||
+  filter.enemy !== "any" ||
+  filter.from !== "" ||
+  filter.to !== "" ||
+  searchTerms(filter.text).length > 0;
+
+const withinTimeRange = (timestamp: string, from: string, to: string) => {
+  if (!from && !to) return true;
+  // Padding "HH:MM" to "HH:MM:SS" keeps the string comparison exact
+  const time = formatClockTime(timestamp);
+  const start = from ? from.padEnd(8, ":00") : "00:00:00";
+  const end = to ? to.padEnd(8, ":59") : "23:59:59";
+  return start <= end ? time >= start && time <= end : time >= start || time <= end;
+};
+
+const includesOrEmpty = (values: string[], value: string) =>
+  values.length === 0 || values.includes(value);
+
+export function matchesFilter(transmission: Transmission, filter: LogFilter): boolean {
+  const explanation = transmission.explanation.toLowerCase();
+  return (
+    (filter.categories.length === 0 || filter.categories.includes(transmission.category)) &&
+    includesOrEmpty(filter.vehicles, transmission.vehicle) &&
+    includesOrEmpty(filter.callSigns, transmission.callSign) &&
+    includesOrEmpty(filter.actions, transmission.action) &&
+    (filter.enemy === "any" || (filter.enemy === "present") === Boolean(transmission.enemy)) &&
+    withinTimeRange(transmission.timestamp, filter.from, filter.to) &&
+    searchTerms(filter.text).every((term) => explanation.includes(term))
+  );
+}
+
+// System notices only make sense in the unfiltered log
+export function filterLog(entries: LogEntry[], filter: LogFilter): LogEntry[] {
+  if (!isFilterActive(filter)) return entries;
+  return entries.filter(
+    (entry) => entry.kind === "transmission" && matchesFilter(entry.transmission, filter),
+  );
+}
+
+export type FacetCounts = {
+  categories: Map<Category, number>;
+  vehicles: Map<string, number>;
+  callSigns: Map<string, number>;
+  actions: Map<string, number>;
+};
+
+const bump = <K>(counts: Map<K, number>, key: K) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+// How many transmissions in the log carry each facet value
+export function facetCounts(entries: LogEntry[]): FacetCounts {
+  const counts: FacetCounts = {
+    categories: new Map(),
+    vehicles: new Map(),
+    callSigns: new Map(),
+    actions: new Map(),
+  };
+  for (const entry of entries) {
+    if (entry.kind !== "transmission") continue;
+    const { category, vehicle, callSign, action } = entry.transmission;
+    bump(counts.categories, category);
+    bump(counts.vehicles, vehicle);
+    bump(counts.callSigns, callSign);
+    bump(counts.actions, action);
+  }
+  return counts;
+}
+
+export type TextSegment = { text: string; match: boolean };
+
+// Split text into runs that do and don't match any of the search terms
+export function highlightSegments(text: string, terms: string[]): TextSegment[] {
+  if (terms.length === 0) return [{ text, match: false }];
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(${escaped.join("|")})`, "gi");
+  return text
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
@@ -0,0 +1,57 @@
+import type { LogEntry } from "@/lib/feed-state";
+import type { Category } from "@/lib/protocol";
+
+// Maps between mission time (transmission timestamps, epoch ms) and video
+// time (seconds into the mission recording). The video starts `videoOffset`
+// seconds before or after the mission clock reads `missionStart`.
+
+export type MissionClock = {
+  missionStart: number;
+  videoOffset: number;
+};
+
+export const toVideoTime = (clock: MissionClock, missionTime: number) =>
+  (missionTime - clock.missionStart) / 1000 + clock.videoOffset;
+
+export const toMissionTime = (clock: MissionClock, videoTime: number) =>
+  clock.missionStart + (videoTime - clock.videoOffset) * 1000;
+
+export type TimelinePoint = {
+  key: string;
+  time: number;
+  category: Category;
+};
+
+// Transmissions in mission-time order, whatever order their feeds delivered them
+export function timelineOf(log: LogEntry[]): TimelinePoint[] {
+  return log
+    .flatMap((entry) =>
+      entry.kind === "transmission"
+        ? [
+            {
+              key: entry.key,
+              time: Date.parse(entry.transmission.timestamp),
+              category: entry.transmission.category,
+            },
+          ]
+        : [],
+    )
+    .sort((a, b) => a.time - b.time);
+}
+
+// Index of the last point at or before `time`, or -1 if there is none
+export function pointIndexAt(points: TimelinePoint[], time: number): number {
+  let low = 0;
+  let high = points.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
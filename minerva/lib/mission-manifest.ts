@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+import { actionTaxonomySchema } from "@/lib/action-taxonomy";
+
+// A mission manifest describes one exercise: what to call it, which video to
+// replay beside it, where its transmissions come from, and who took part.
+// Manifests are JSON files in the missions directory, served by /api/missions.
+
+export const rosterEntrySchema = z.object({
+  callSign: z.string().min(1),
+  vehicle: z.string().min(1),
+  unit: z.string().optional(),
+});
+
+export type RosterEntry = z.infer<typeof rosterEntrySchema>;
+
+// Frame rate of the recording, used to snap seeks and read out timecode
+const frameRateSchema = z.number().positive().default(30);
+
+export const videoSourceSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("youtube"), videoId: z.string().min(1), frameRate: frameRateSchema }),
+  // MP4/WebM file served from a local share or the app itself
+  z.object({ type: z.literal("file"), url: z.string().min(1), frameRate: frameRateSchema }),
+  // HLS playlist (.m3u8)
+  z.object({ type: z.literal("hls"), url: z.string().min(1), frameRate: frameRateSchema }),
+]);
+
+export type VideoSource = z.infer<typeof videoSourceSchema>;
+
+export const missionFeedSchema = z.union([
+  z.object({ url: z.string().min(1) }),
+  // JSONL recording in the missions directory, served by /api/missions/[id]/session
+  z.object({ session: z.string().min(1) }),
+]);
+
+export const missionManifestSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "lowercase letters, digits and dashes only"),
+  name: z.string().min(1),
+  sector: z.string().min(1),
+  description: z.string().optional(),
+  video: videoSourceSchema,
+  feed: missionFeedSchema,
+  // Seconds into the video at which the first transmission happens
+  startOffset: z.number().default(0),
+  roster: z.array(rosterEntrySchema).default([]),
+  // Merged over the default action taxonomy
+  taxonomy: actionTaxonomySchema.optional(),
+});
+
+export type MissionManifest = z.infer<typeof missionManifestSchema>;
+
+export type MissionSummary = Pick<MissionManifest, "id" | "name" | "sector" | "description">;
+
+export const DEFAULT_VIDEO_SOURCE: VideoSource = { type: "youtube", videoId: "5mSPQlDgzBY", frameRate: 30 };
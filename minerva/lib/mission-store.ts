@@ -0,0 +1,75 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { isSocketUrl, type FeedSource } from "@/lib/feed-sources";
+import {
+  missionManifestSchema,
+  type MissionManifest,
+  type MissionSummary,
+} from "@/lib/mission-manifest";
+
+// Server-side access to mission manifests on disk. Every *.json file in the
+// missions directory is one manifest; its id must match the file name.
+
+const missionsDir = () => process.env.MISSIONS_DIR ?? path.join(process.cwd(), "missions");
+
+async function readManifest(file: string): Promise<MissionManifest | null> {
+  try {
+    const data = JSON.parse(await readFile(path.join(missionsDir(), file), "utf8"));
+    const result = missionManifestSchema.safeParse(data);
+    if (!result.success) {
+      console.warn(`Skipping invalid mission manifest ${file}:`, result.error.issues);
+      return null;
+    }
+    if (`${result.data.id}.json` !== file) {
+      console.warn(`Skipping mission manifest ${file}: id "${result.data.id}" does not match file name`);
+      return null;
+    }
+    return result.data;
+  } catch (error) {
+    console.warn(`Skipping unreadable mission manifest ${file}:`, error);
+    return null;
+  }
+}
+
+async function readManifests(): Promise<MissionManifest[]> {
+  let files: string[];
+  try {
+    files = (await readdir(missionsDir())).filter((file) => file.endsWith(".json"));
+  } catch {
+    return [];
+  }
+  const manifests = await Promise.all(files.sort().map(readManifest));
+  return manifests.filter((manifest): manifest is MissionManifest => manifest !== null);
+}
+
+export async function listMissions(): Promise<MissionSummary[]> {
+  return (await readManifests()).map(({ id, name, sector, description }) => ({ id, name, sector, description }));
+}
+
+// The simulators that missions name by socket URL, for the feed gateway
+export async function missionFeedSources(): Promise<FeedSource[]> {
+  return (await readManifests()).flatMap((mission) =>
+    "url" in mission.feed && isSocketUrl(mission.feed.url)
+      ? [{ id: mission.id, label: mission.sector, url: mission.feed.url }]
+      : [],
+  );
+}
+
+const isMissionId = (id: string) => /^[a-z0-9-]+$/.test(id);
+
+export async function getMission(id: string): Promise<MissionManifest | null> {
+  return isMissionId(id) ? readManifest(`${id}.json`) : null;
+}
+
+// The mission's recorded session as JSONL, if its feed is a recording
+export async function getMissionSession(id: string): Promise<string | null> {
+  const mission = await getMission(id);
+  if (!mission || !("session" in mission.feed)) return null;
+  const file = path.basename(mission.feed.session);
+  try {
+    return await readFile(path.join(missionsDir(), file), "utf8");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,197 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1Prompt, LanguageModelV1StreamPart } from "ai";
+
+import { NARRATIVE_PROMPT_LEAD } from "@/lib/after-action";
+import { exchangeLine, TITLE_PROMPT_LEAD } from "@/lib/threads";
+
+// A deterministic stand-in for a hosted model, for air-gapped networks and
+// tests. The same conversation always produces the same reply. When the
+// session tools are offered it calls them first, like a real model would,
+// then answers from their results with message-id citations.
+
+type MockTurn =
+  | { kind: "text"; text: string }
+  | { kind: "tool-call"; toolName: string; args: Record<string, unknown> };
+
+const lastUserText = (prompt: LanguageModelV1Prompt) => {
+  for (let idx = prompt.length - 1; idx >= 0; idx--) {
+    const message = prompt[idx];
+    if (message.role === "user") {
+      return message.content.flatMap((part) => (part.type === "text" ? [part.text] : [])).join(" ");
+    }
+  }
+  return "";
+};
+
+// The narrative of an after-action report, from the counts in its prompt
+// (narrativePrompt, which embeds the statistics as JSON)
+const afterActionDraft = (input: string) => {
+  const count = (field: string) => input.match(new RegExp(`"${field}": (\\d+)`))?.[1] ?? "0";
+  return [
+    "## Overview",
+    `The session logged ${count("transmissionCount")} transmissions over ${count("durationMinutes")} minutes.`,
+    "## Assessment",
+    `Units reported ${count("positive")} positive, ${count("negative")} negative and ${count("neutral")} neutral outcomes.`,
+    "## Recommendations",
+    "- Review each setback in the timeline with the units involved.",
+  ].join("\n\n");
+};
+
+// A thread's title: the first words of the question in its prompt
+// (titlePrompt)
+const threadTitle = (input: string) => {
+  const userLead = exchangeLine("user", "");
+  const question = input.split("\n").find((line) => line.startsWith(userLead))?.slice(userLead.length) ?? "";
+  return question.split(/\s+/).filter(Boolean).slice(0, 6).join(" ") || "New conversation";
+};
+
+// Canned replies for when no tool applies
+const cannedReply = (input: string) => {
+  if (input.startsWith(TITLE_PROMPT_LEAD)) return threadTitle(input);
+  if (input.startsWith(NARRATIVE_PROMPT_LEAD)) return afterActionDraft(input);
+  const text = input.toLowerCase();
+  if (/\b(hello|hi)\b/.test(text)) return "Hello Commander, how may I assist you today?";
+  if (/air support|reinforcement/.test(text)) {
+    return "Air support requests are routed through the fires cell. I have no tasking data in this session to confirm availability.";
+  }
+  return "Acknowledged, Commander. I have no session data that answers that. Ask me about transmissions, units, enemy contacts or influence analysis.";
+};
+
+// Which session tool, if any, a question calls for
+const pickTool = (input: string, tools: string[]): MockTurn | null => {
+  const text = input.toLowerCase();
+  const minutes = text.match(/last (\d+) min/);
+  if (tools.includes("summarize_enemy_contacts") && /enemy|contact|threat|hostile/.test(text)) {
+    return { kind: "tool-call", toolName: "summarize_enemy_contacts", args: {} };
+  }
+  if (tools.includes("get_influence_analysis") && /influence|why did|feature/.test(text)) {
+    const action = input.match(/\b([A-Z]{3,}(?: [A-Z]{2,})*)\b/)?.[1] ?? "ENGAGE";
+    return { kind: "tool-call", toolName: "get_influence_analysis", args: { action } };
+  }
+  if (tools.includes("list_transmissions") && /transmission|unit|report|status|what did|update|last \d+ min/.test(text)) {
+    return {
+      kind: "tool-call",
+      toolName: "list_transmissions",
+      args: minutes ? { lastMinutes: Number(minutes[1]), limit: 10 } : { limit: 10 },
+    };
+  }
+  return null;
+};
+
+type Cited = { messageId: string; callSign?: string; action?: string; explanation?: string };
+
+// Turn a session tool's result back into prose, citing message ids
+const describeResult = (toolName: string, result: unknown): string => {
+  const data = result as Record<string, unknown> & { error?: string };
+  if (data?.error) return `The session has no answer: ${data.error}.`;
+  switch (toolName) {
+    case "list_transmissions": {
+      const { total, transmissions } = data as { total: number; transmissions: Cited[] };
+      if (total === 0) return "No transmissions match that request.";
+      const lines = transmissions.map((t) => `- ${t.callSign} ${t.action}: ${t.explanation} [${t.messageId}]`);
+      return [`${total} transmissions match. Most recent:`, ...lines].join("\n");
+    }
+    case "summarize_enemy_contacts": {
+      const contacts = result as { enemy: string; engagedBy: string[]; messageIds: string[] }[];
+      if (contacts.length === 0) return "No enemy contacts have been reported.";
+      return [
+        `${contacts.length} enemy contacts reported:`,
+        ...contacts.map(
+          (c) => `- ${c.enemy}, engaged by ${c.engagedBy.join(", ")} ${c.messageIds.map((id) => `[${id}]`).join(" ")}`,
+        ),
+      ].join("\n");
+    }
+    case "get_influence_analysis": {
+      const { action, fromMessageId, influence, reportedBy } = data as {
+        action: string;
+        fromMessageId: string;
+        influence: { top_3_overall: { features: string[] } };
+        reportedBy: Cited[];
+      };
+      return (
+        `${action} was driven most by ${influence.top_3_overall.features.join(", ")} [${fromMessageId}].` +
+        (reportedBy.length > 0 ? ` Reported by ${reportedBy.map((r) => `${r.callSign} [${r.messageId}]`).join(", ")}.` : "")
+      );
+    }
+    default:
+      return `${toolName} returned: ${JSON.stringify(result)}`;
+  }
+};
+
+function nextTurn(options: LanguageModelV1CallOptions): MockTurn {
+  const last = options.prompt[options.prompt.length - 1];
+  if (last?.role === "tool") {
+    return {
+      kind: "text",
+      text: last.content.map((part) => describeResult(part.toolName, part.result)).join("\n\n"),
+    };
+  }
+  const tools =
+    options.mode.type === "regular" ? (options.mode.tools ?? []).map((tool) => tool.name) : [];
+  const input = lastUserText(options.prompt);
+  return pickTool(input, tools) ?? { kind: "text", text: cannedReply(input) };
+}
+
+// Rough and repeatable: one token per word
+const countTokens = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export function mockModel(modelId = "mock"): LanguageModelV1 {
+  const run = (options: LanguageModelV1CallOptions) => {
+    const turn = nextTurn(options);
+    const promptTokens = countTokens(JSON.stringify(options.prompt));
+    const toolCallId = `mock-call-${options.prompt.length}`;
+    return { turn, promptTokens, toolCallId };
+  };
+
+  return {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId,
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate(options) {
+      const { turn, promptTokens, toolCallId } = run(options);
+      return {
+        ...(turn.kind === "text"
+          ? { text: turn.text, finishReason: "stop" as const }
+          : {
+              toolCalls: [
+                { toolCallType: "function" as const, toolCallId, toolName: turn.toolName, args: JSON.stringify(turn.args) },
+              ],
+              finishReason: "tool-calls" as const,
+            }),
+        usage: { promptTokens, completionTokens: turn.kind === "text" ? countTokens(turn.text) : 1 },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    async doStream(options) {
+      const { turn, promptTokens, toolCallId } = run(options);
+      const parts: LanguageModelV1StreamPart[] =
+        turn.kind === "text"
+          ? turn.text.split(/(?<=\s)/).map((word) => ({ type: "text-delta", textDelta: word }))
+          : [
+              {
+                type: "tool-call",
+                toolCallType: "function",
+                toolCallId,
+                toolName: turn.toolName,
+                args: JSON.stringify(turn.args),
+              },
+            ];
+      parts.push({
+        type: "finish",
+        finishReason: turn.kind === "text" ? "stop" : "tool-calls",
+        usage: { promptTokens, completionTokens: turn.kind === "text" ? countTokens(turn.text) : 1 },
+      });
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            for (const part of parts) controller.enqueue(part);
+            controller.close();
+          },
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
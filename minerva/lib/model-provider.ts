@@ -0,0 +1,67 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModelV1 } from "ai";
+
+import { mockModel } from "@/lib/mock-model";
+
+// Which model answers /api/chat, chosen by configuration:
+//
+//   MINERVA_MODEL_PROVIDER  openai (default), compatible, or mock
+//   MINERVA_MODEL_BASE_URL  base URL of an OpenAI-compatible server (compatible)
+//   MINERVA_MODEL_API_KEY   its key, if it wants one; openai uses OPENAI_API_KEY
+//   MINERVA_MODEL           default model id (gpt-4o)
+//   MINERVA_ALLOWED_MODELS  comma-separated ids a request may ask for instead
+//
+// A request may ask for "mock" only where it is configured: as the provider,
+// or listed in MINERVA_ALLOWED_MODELS.
+
+export type ModelProvider = "openai" | "compatible" | "mock";
+
+const DEFAULT_MODEL = "gpt-4o";
+export const MOCK_MODEL_ID = "mock";
+
+// The request asked for a model this deployment doesn't offer
+export class ModelNotAllowedError extends Error {}
+
+const configuredProvider = (): ModelProvider => {
+  const provider = process.env.MINERVA_MODEL_PROVIDER ?? "openai";
+  if (provider === "openai" || provider === "compatible" || provider === "mock") return provider;
+  throw new Error(`Unknown MINERVA_MODEL_PROVIDER "${provider}"`);
+};
+
+export const defaultModelId = () =>
+  configuredProvider() === "mock" ? MOCK_MODEL_ID : (process.env.MINERVA_MODEL ?? DEFAULT_MODEL);
+
+export const allowedModelIds = () => [
+  ...new Set([
+    defaultModelId(),
+    ...(process.env.MINERVA_ALLOWED_MODELS ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean),
+  ]),
+];
+
+export function resolveModel(requested?: string): LanguageModelV1 {
+  const modelId = requested ?? defaultModelId();
+  if (!allowedModelIds().includes(modelId)) {
+    throw new ModelNotAllowedError(`Model "${modelId}" is not allowed; use one of ${allowedModelIds().join(", ")}`);
+  }
+  if (modelId === MOCK_MODEL_ID) return mockModel();
+
+  switch (configuredProvider()) {
+    case "compatible": {
+      const baseURL = process.env.MINERVA_MODEL_BASE_URL;
+      if (!baseURL) throw new Error("MINERVA_MODEL_BASE_URL is required for the compatible provider");
+      return createOpenAI({
+        baseURL,
+        apiKey: process.env.MINERVA_MODEL_API_KEY ?? "not-needed",
+        compatibility: "compatible",
+        name: "compatible",
+      })(modelId);
+    }
+    case "mock":
+      return mockModel(modelId);
+    case "openai":
+      return createOpenAI()(modelId);
+  }
+}
@@ -0,0 +1,118 @@
+import type { LogEntry } from "@/lib/feed-state";
+import type { AckFrame, OrderType } from "@/lib/protocol";
+
+// Orders the commander sends to field units. An order is echoed into the log
+// as soon as it is issued, and its status follows the link from there: sent,
+// then acknowledged or rejected by the server, or timed out waiting. Orders
+// are folded apart from the feed state, so resetting a feed or replaying a
+// recording leaves them alone.
+
+// How long an order waits for its ack before it is marked timed out
+export const ORDER_ACK_TIMEOUT_MS = 10_000;
+
+export type OrderStatus =
+  // On the wire, waiting for the server's ack
+  | "sent"
+  | "acknowledged"
+  | "rejected"
+  | "timed-out"
+  // No open link to send it on
+  | "undelivered";
+
+export type OrderDraft = {
+  target: string;
+  order: OrderType;
+  remarks: string;
+};
+
+export type Order = OrderDraft & {
+  id: string;
+  // Feed the order went out on, if any was open
+  source: string | null;
+  issuedAt: number;
+  status: OrderStatus;
+  updatedAt: number;
+  // Why the server rejected it
+  reason?: string;
+  attempts: number;
+};
+
+export const orderKey = (id: string) => `order-${id}`;
+
+export const newOrderId = () => crypto.randomUUID();
+
+// Timed-out and undelivered orders can be sent again under the same id
+export const canRetry = (order: Order) => order.status === "timed-out" || order.status === "undelivered";
+
+// An ack settles an order whatever its state, so a late ack still lands
+export const applyAck = (order: Order, ack: AckFrame, at: number): Order => ({
+  ...order,
+  status: ack.status === "accepted" ? "acknowledged" : "rejected",
+  reason: ack.reason,
+  updatedAt: at,
+});
+
+export const expireOrder = (order: Order, at: number): Order =>
+  order.status === "sent" ? { ...order, status: "timed-out", updatedAt: at } : order;
+
+export type OrderEvent =
+  | { type: "order"; order: Order }
+  | { type: "orderAck"; ack: AckFrame; at: number }
+  | { type: "orderTimeout"; id: string; at: number };
+
+// Apply `update` to the order with this id, if there is one
+const updateOrder = (orders: Order[], id: string, update: (order: Order) => Order) =>
+  orders.map((order) => (order.id === id ? update(order) : order));
+
+// Orders in the order they were issued
+export function ordersReducer(orders: Order[], event: OrderEvent): Order[] {
+  switch (event.type) {
+    case "order":
+      // A retry replaces the original rather than adding another
+      return orders.some((order) => order.id === event.order.id)
+        ? updateOrder(orders, event.order.id, () => event.order)
+        : [...orders, event.order];
+    case "orderAck":
+      return updateOrder(orders, event.ack.order_id, (order) => applyAck(order, event.ack, event.at));
+    case "orderTimeout":
+      return updateOrder(orders, event.id, (order) => expireOrder(order, event.at));
+  }
+}
+
+const entryTime = (entry: LogEntry) =>
+  entry.kind === "transmission"
+    ? entry.transmission.receivedAt
+    : entry.kind === "system"
+      ? entry.at
+      : entry.order.issuedAt;
+
+// The log with each order echoed where it was issued
+export function withOrders(log: LogEntry[], orders: Order[]): LogEntry[] {
+  if (orders.length === 0) return log;
+  const merged: LogEntry[] = [];
+  let next = 0;
+  const echoUntil = (time: number) => {
+    for (; next < orders.length && orders[next].issuedAt <= time; next++) {
+      merged.push({ kind: "order", key: orderKey(orders[next].id), order: orders[next] });
+    }
+  };
+  for (const entry of log) {
+    echoUntil(entryTime(entry) - 1);
+    merged.push(entry);
+  }
+  echoUntil(Infinity);
+  return merged;
+}
+
+// Send an order on the feed its target last reported on, when that link is
+// open, or else on the first open link
+export function routeOrder(log: LogEntry[], target: string, linked: string[]): string | null {
+  for (let idx = log.length - 1; idx >= 0; idx--) {
+    const entry = log[idx];
+    if (entry.kind === "transmission" && entry.transmission.callSign === target) {
+      if (linked.includes(entry.transmission.source)) return entry.transmission.source;
+      break;
+    }
+  }
+  return linked[0] ?? null;
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+
+// Wire protocol for the field-unit WebSocket feed. Every frame is validated
+// against these schemas before it reaches UI state; anything that fails is
+// quarantined with the reasons it was rejected.
+
+export const categorySchema = z.enum(["positive", "negative", "neutral"]);
+
+export type Category = z.infer<typeof categorySchema>;
+
+export const rankedSchema = z.object({
+  features: z.array(z.string()).optional(),
+  labels: z.array(z.string()).optional(),
+  scores: z.array(z.number()).optional(),
+});
+
+export const actionInfluenceSchema = z
+  .object({
+    top_3_overall: z.object({
+      features: z.array(z.string()),
+      scores: z.array(z.number()).optional(),
+    }),
+    entities: z.object({ top_3: rankedSchema }).passthrough(),
+    mission: z.object({ top_3: rankedSchema }).passthrough(),
+    visibility: z.object({
+      legacy: z.number(),
+      dynasty: z.number(),
+    }),
+  })
+  .passthrough();
+
+export type ActionInfluence = z.infer<typeof actionInfluenceSchema>;
+
+// Keyed by simulator action name.
+export const influenceAnalysisSchema = z.record(z.string(), actionInfluenceSchema);
+
+export type InfluenceAnalysis = z.infer<typeof influenceAnalysisSchema>;
+
+export const webSocketMessageSchema = z.object({
+  id: z.number().int(),
+  action: z.string().min(1),
+  vehicle: z.string().min(1),
+  callSign: z.string().min(1),
+  enemy: z.string().optional(),
+  explanation: z.string(),
+  category: categorySchema,
+  timestamp: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "not a valid date"),
+  influence_analysis: influenceAnalysisSchema.nullish(),
+  action_mapping: z.string().optional(),
+});
+
+export type WebSocketMessage = z.infer<typeof webSocketMessageSchema>;
+
+// A validated message as the dashboard keeps it, tagged with the feed it came
+// from and the local time it arrived. Ids are only unique within one feed.
+export type Transmission = WebSocketMessage & {
+  source: string;
+  receivedAt: number;
+};
+
+// Control frames exchanged with the feed server outside the transmission
+// stream: heartbeats, and the resume request sent after a reconnect.
+export const PING_FRAME = JSON.stringify({ type: "ping" });
+
+const pongFrameSchema = z.object({ type: z.literal("pong") });
+
+export function isPongFrame(raw: string): boolean {
+  try {
+    return pongFrameSchema.safeParse(JSON.parse(raw)).success;
+  } catch {
+    return false;
+  }
+}
+
+export function buildResumeFrame(lastId: number): string {
+  return JSON.stringify({ type: "resume", after_id: lastId });
+}
+
+// Orders sent up to field units over the same socket. Each carries an id
+// the server echoes back in an ack frame, once it has accepted or rejected it.
+export const orderTypeSchema = z.enum(["MOVE", "HOLD", "ENGAGE", "WITHDRAW", "RECON", "RESUPPLY", "REPORT"]);
+
+export type OrderType = z.infer<typeof orderTypeSchema>;
+
+export const ORDER_TYPES = orderTypeSchema.options;
+
+export function buildOrderFrame(order: {
+  id: string;
+  target: string;
+  order: OrderType;
+  remarks: string;
+  issuedAt: number;
+}): string {
+  return JSON.stringify({
+    type: "order",
+    order_id: order.id,
+    target: order.target,
+    order: order.order,
+    ...(order.remarks ? { remarks: order.remarks } : {}),
+    issued_at: new Date(order.issuedAt).toISOString(),
+  });
+}
+
+const ackFrameSchema = z.object({
+  type: z.literal("ack"),
+  order_id: z.string().min(1),
+  status: z.enum(["accepted", "rejected"]),
+  reason: z.string().optional(),
+});
+
+export type AckFrame = z.infer<typeof ackFrameSchema>;
+
+// The ack in a frame, or null for any other frame. A malformed ack falls
+// through to parseFrame and is quarantined like any other bad frame.
+export function parseAckFrame(raw: string): AckFrame | null {
+  try {
+    const result = ackFrameSchema.safeParse(JSON.parse(raw));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export type QuarantinedFrame = {
+  source?: string;
+  receivedAt: number;
+  raw: string;
+  reasons: string[];
+};
+
+export type FrameParseResult =
+  | { ok: true; message: WebSocketMessage }
+  | { ok: false; frame: QuarantinedFrame };
+
+const formatIssue = (issue: z.ZodIssue): string => {
+  const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+  return `${path}: ${issue.message}`;
+};
+
+export function parseFrame(raw: string, receivedAt = Date.now()): FrameParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    return { ok: false, frame: { receivedAt, raw, reasons: [`invalid JSON: ${detail}`] } };
+  }
+
+  const result = webSocketMessageSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      ok: false,
+      frame: { receivedAt, raw, reasons: result.error.issues.map(formatIssue) },
+    };
+  }
+
+  return { ok: true, message: result.data };
+}
@@ -0,0 +1,187 @@
+import { z } from "zod";
+
+import { buildContactBoard } from "@/lib/enemy-contacts";
+import type { LogEntry } from "@/lib/feed-state";
+import { rosterEntrySchema } from "@/lib/mission-manifest";
+import { categorySchema, webSocketMessageSchema, type InfluenceAnalysis } from "@/lib/protocol";
+
+// The slice of the dashboard the assistant's tools can see: the open mission
+// and every transmission received so far. The dashboard sends it with each
+// chat request, so answers follow whatever is loaded, live or replayed; see
+// chatSessionContext for what a chat request leaves out.
+// Transmissions are cited by their log key, e.g. "delta-sector-12".
+
+export const sessionContextSchema = z.object({
+  mission: z
+    .object({ id: z.string(), name: z.string(), sector: z.string() })
+    .nullable()
+    .default(null),
+  roster: z.array(rosterEntrySchema).default([]),
+  transmissions: z.array(
+    webSocketMessageSchema.extend({ key: z.string(), source: z.string(), receivedAt: z.number() }),
+  ),
+});
+
+export type SessionContext = z.infer<typeof sessionContextSchema>;
+
+export function buildSessionContext(
+  log: LogEntry[],
+  mission: SessionContext["mission"],
+  roster: SessionContext["roster"],
+): SessionContext {
+  return {
+    mission,
+    roster,
+    transmissions: log.flatMap((entry) =>
+      entry.kind === "transmission" ? [{ ...entry.transmission, key: entry.key }] : [],
+    ),
+  };
+}
+
+// The session as a chat request carries it. Influence analyses dwarf the rest
+// of a transmission and mostly repeat, so each action keeps only its latest
+// analysis, on the transmission that carried it.
+export function chatSessionContext(context: SessionContext): SessionContext {
+  const latestByAction = new Map<string, number>();
+  context.transmissions.forEach((transmission, idx) => {
+    for (const action of Object.keys(transmission.influence_analysis ?? {})) latestByAction.set(action, idx);
+  });
+  return {
+    ...context,
+    transmissions: context.transmissions.map((transmission, idx) => {
+      const { influence_analysis: analysis, ...rest } = transmission;
+      if (!analysis) return transmission;
+      const kept = Object.entries(analysis).filter(([action]) => latestByAction.get(action) === idx);
+      return kept.length > 0 ? { ...rest, influence_analysis: Object.fromEntries(kept) } : rest;
+    }),
+  };
+}
+
+// The session as a feed log, for the helpers the dashboard uses
+export const logOf = (context: SessionContext): LogEntry[] =>
+  context.transmissions.map(({ key, ...transmission }) => ({ kind: "transmission", key, transmission }));
+
+// Latest transmission time, which "the last N minutes" is measured back from.
+// A loop, since spreading a long session into Math.max overflows the stack.
+function sessionNow(context: SessionContext): number {
+  let latest = -Infinity;
+  for (const transmission of context.transmissions) latest = Math.max(latest, Date.parse(transmission.timestamp));
+  return latest;
+}
+
+export const transmissionQuerySchema = z.object({
+  unit: z
+    .string()
+    .optional()
+    .describe("Call sign, vehicle type or roster unit name to match, case-insensitive, e.g. 'VIPER', 'tank'"),
+  category: categorySchema.optional(),
+  action: z.string().optional().describe("Reported action, e.g. 'ENGAGE'"),
+  enemy: z.string().optional().describe("Only transmissions reporting this enemy, case-insensitive"),
+  lastMinutes: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Only the last N minutes of mission time, counted back from the latest transmission"),
+  from: z.string().optional().describe("ISO timestamp; only transmissions at or after it"),
+  to: z.string().optional().describe("ISO timestamp; only transmissions at or before it"),
+  limit: z.number().int().positive().max(200).default(50),
+});
+
+export type TransmissionQuery = z.infer<typeof transmissionQuerySchema>;
+
+export function queryTransmissions(context: SessionContext, query: TransmissionQuery) {
+  const unit = query.unit?.toLowerCase();
+  const unitsByCallSign = new Map(context.roster.map((entry) => [entry.callSign, entry.unit ?? ""]));
+  const from = query.from ? Date.parse(query.from) : -Infinity;
+  const to = query.to ? Date.parse(query.to) : Infinity;
+  const since = query.lastMinutes ? sessionNow(context) - query.lastMinutes * 60_000 : -Infinity;
+
+  const matches = context.transmissions.filter((transmission) => {
+    const time = Date.parse(transmission.timestamp);
+    return (
+      (!unit ||
+        [transmission.callSign, transmission.vehicle, unitsByCallSign.get(transmission.callSign) ?? ""].some(
+          (name) => name.toLowerCase().includes(unit),
+        )) &&
+      (!query.category || transmission.category === query.category) &&
+      (!query.action || transmission.action.toLowerCase() === query.action.toLowerCase()) &&
+      (!query.enemy || transmission.enemy?.toLowerCase().includes(query.enemy.toLowerCase())) &&
+      time >= Math.max(from, since) &&
+      time <= to
+    );
+  });
+  return {
+    total: matches.length,
+    // The most recent ones when there are more than the limit
+    transmissions: matches.slice(-query.limit).map((transmission) => ({
+      messageId: transmission.key,
+      timestamp: transmission.timestamp,
+      callSign: transmission.callSign,
+      vehicle: transmission.vehicle,
+      unit: unitsByCallSign.get(transmission.callSign),
+      action: transmission.action,
+      actionMapping: transmission.action_mapping,
+      category: transmission.category,
+      enemy: transmission.enemy,
+      explanation: transmission.explanation,
+    })),
+  };
+}
+
+// The analysis for `action` as of a message, or the latest one received. A
+// chat session keeps only each action's latest analysis, so asking as of an
+// earlier message may find none.
+export function influenceForAction(context: SessionContext, action: string, asOfMessageId?: string) {
+  let found: { messageId: string; timestamp: string; analysis: InfluenceAnalysis } | null = null;
+  let key: string | undefined;
+  const availableActions = new Set<string>();
+  for (const transmission of context.transmissions) {
+    const analysis = transmission.influence_analysis;
+    if (analysis) {
+      Object.keys(analysis).forEach((candidate) => availableActions.add(candidate));
+      const match = Object.keys(analysis).find((candidate) => candidate.toLowerCase() === action.toLowerCase());
+      if (match) {
+        found = { messageId: transmission.key, timestamp: transmission.timestamp, analysis };
+        key = match;
+      }
+    }
+    if (transmission.key === asOfMessageId) break;
+  }
+  if (availableActions.size === 0) return { error: "No influence analysis has been received yet" };
+  if (!found || !key) {
+    return { error: `No analysis for action ${action}`, availableActions: [...availableActions] };
+  }
+  return {
+    action: key,
+    fromMessageId: found.messageId,
+    timestamp: found.timestamp,
+    influence: found.analysis[key],
+    // The transmissions that reported this action, for citation
+    reportedBy: context.transmissions
+      .filter((transmission) => transmission.action === key)
+      .map((transmission) => ({ messageId: transmission.key, callSign: transmission.callSign })),
+  };
+}
+
+export function summarizeContacts(context: SessionContext) {
+  return buildContactBoard(logOf(context)).map((contact) => ({
+    enemy: contact.enemy,
+    firstSeen: new Date(contact.firstSeen).toISOString(),
+    lastSeen: new Date(contact.lastSeen).toISOString(),
+    engagedBy: contact.callSigns,
+    outcomes: contact.outcomes,
+    messageIds: contact.events.map((event) => event.key),
+  }));
+}
+
+export function describeSession(context: SessionContext) {
+  const times = context.transmissions.map((transmission) => transmission.timestamp).sort();
+  return {
+    mission: context.mission,
+    roster: context.roster,
+    transmissionCount: context.transmissions.length,
+    firstTransmission: times[0] ?? null,
+    latestTransmission: times[times.length - 1] ?? null,
+    callSigns: [...new Set(context.transmissions.map((transmission) => transmission.callSign))],
+  };
+}
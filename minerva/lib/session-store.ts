@@ -0,0 +1,196 @@
+// Persistent store for recorded feed sessions, kept in the browser's
+// IndexedDB. A session is a named run of raw frames, each stamped with the
+// feed it came from and its local arrival time, so a recording can be
+// validated and replayed exactly as it was received.
+
+export type RecordedFrame = {
+  source: string;
+  receivedAt: number;
+  raw: string;
+};
+
+export type SessionMeta = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  frameCount: number;
+};
+
+type StoredFrame = RecordedFrame & { sessionId: string };
+
+const DB_NAME = "minerva";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const FRAMES = "frames";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS, { keyPath: "id" });
+        const frames = db.createObjectStore(FRAMES, { autoIncrement: true });
+        frames.createIndex("sessionId", "sessionId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function listSessions(): Promise<SessionMeta[]> {
+  const db = await openDatabase();
+  const sessions = await promisify(
+    db.transaction(SESSIONS).objectStore(SESSIONS).getAll() as IDBRequest<SessionMeta[]>,
+  );
+  return sessions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function createSession(name: string, createdAt = Date.now()): Promise<SessionMeta> {
+  const db = await openDatabase();
+  const session: SessionMeta = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt,
+    updatedAt: createdAt,
+    frameCount: 0,
+  };
+  const tx = db.transaction(SESSIONS, "readwrite");
+  tx.objectStore(SESSIONS).add(session);
+  await transactionDone(tx);
+  return session;
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS, "readwrite");
+  const store = tx.objectStore(SESSIONS);
+  const session = await promisify(store.get(id) as IDBRequest<SessionMeta | undefined>);
+  if (session) {
+    store.put({ ...session, name, updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS, FRAMES], "readwrite");
+  tx.objectStore(SESSIONS).delete(id);
+  const keys = await promisify(
+    tx.objectStore(FRAMES).index("sessionId").getAllKeys(IDBKeyRange.only(id)),
+  );
+  for (const key of keys) {
+    tx.objectStore(FRAMES).delete(key);
+  }
+  await transactionDone(tx);
+}
+
+export async function appendFrames(sessionId: string, frames: RecordedFrame[]): Promise<void> {
+  if (frames.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS, FRAMES], "readwrite");
+  const frameStore = tx.objectStore(FRAMES);
+  for (const frame of frames) {
+    frameStore.add({ ...frame, sessionId } satisfies StoredFrame);
+  }
+  const sessionStore = tx.objectStore(SESSIONS);
+  const session = await promisify(sessionStore.get(sessionId) as IDBRequest<SessionMeta | undefined>);
+  if (session) {
+    sessionStore.put({
+      ...session,
+      frameCount: session.frameCount + frames.length,
+      updatedAt: Date.now(),
+    });
+  }
+  await transactionDone(tx);
+}
+
+// Frames come back in arrival order, since keys are assigned on insert
+export async function getSessionFrames(sessionId: string): Promise<RecordedFrame[]> {
+  const db = await openDatabase();
+  const stored = await promisify(
+    db
+      .transaction(FRAMES)
+      .objectStore(FRAMES)
+      .index("sessionId")
+      .getAll(IDBKeyRange.only(sessionId)) as IDBRequest<StoredFrame[]>,
+  );
+  return stored.map(({ source, receivedAt, raw }) => ({ source, receivedAt, raw }));
+}
+
+/**
+ * JSONL export: a header line describing the session, then one line per
+ * frame in arrival order.
+ */
+export async function exportSessionJsonl(session: SessionMeta): Promise<string> {
+  const frames = await getSessionFrames(session.id);
+  const header = { type: "session", name: session.name, createdAt: session.createdAt };
+  return [header, ...frames].map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+const isRecordedFrame = (value: unknown): value is RecordedFrame =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as RecordedFrame).source === "string" &&
+  typeof (value as RecordedFrame).receivedAt === "number" &&
+  typeof (value as RecordedFrame).raw === "string";
+
+export type ParsedSession = {
+  name: string;
+  createdAt: number;
+  frames: RecordedFrame[];
+};
+
+export function parseSessionJsonl(text: string, fallbackName: string): ParsedSession {
+  const lines = text.split("\n").filter((line) => line.trim().length > 0);
+  const parsed: ParsedSession = { name: fallbackName, createdAt: Date.now(), frames: [] };
+
+  lines.forEach((line, index) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+    if (index === 0 && (value as { type?: string })?.type === "session") {
+      const header = value as { name?: unknown; createdAt?: unknown };
+      if (typeof header.name === "string") parsed.name = header.name;
+      if (typeof header.createdAt === "number") parsed.createdAt = header.createdAt;
+      return;
+    }
+    if (!isRecordedFrame(value)) {
+      throw new Error(`Line ${index + 1} is not a recorded frame`);
+    }
+    parsed.frames.push(value);
+  });
+
+  return parsed;
+}
+
+export async function importSessionJsonl(text: string, fallbackName: string): Promise<SessionMeta> {
+  const { name, createdAt, frames } = parseSessionJsonl(text, fallbackName);
+  const session = await createSession(name, createdAt);
+  await appendFrames(session.id, frames);
+  return { ...session, frameCount: frames.length };
+}
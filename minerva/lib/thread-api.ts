@@ -0,0 +1,91 @@
+import type {
+  ExportedMessageRepository,
+  ThreadMessage,
+  unstable_useRemoteThreadListRuntime as useRemoteThreadListRuntime,
+} from "@assistant-ui/react";
+import { createAssistantStream } from "assistant-stream";
+
+import { describeChatError } from "@/lib/chat-errors";
+import type { StoredMessage, StoredThread, ThreadSummary, ThreadUpdate, TitleExchange } from "@/lib/threads";
+
+// The browser's side of the thread routes (/api/threads), as the adapters the
+// Assistant page's runtime takes: the thread list, and each thread's history.
+
+type RemoteThreadListAdapter = Parameters<typeof useRemoteThreadListRuntime>[0]["adapter"];
+
+const threadUrl = (id: string) => `/api/threads/${encodeURIComponent(id)}`;
+
+const EXCHANGE_TEXT_LIMIT = 4000;
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  if (!res.ok) throw new Error(describeChatError(res.status, await res.text()));
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+const updateThread = (id: string, update: ThreadUpdate) =>
+  request<ThreadSummary>(threadUrl(id), { method: "PATCH", body: JSON.stringify(update) }).then(() => {});
+
+export const loadThread = (id: string) => request<StoredThread>(threadUrl(id));
+
+export const saveMessage = (id: string, item: ExportedMessageRepository["messages"][number]) =>
+  request<ThreadSummary>(`${threadUrl(id)}/messages`, { method: "POST", body: JSON.stringify(item) });
+
+// A stored thread as the runtime imports it; dates come back as strings
+export const threadRepository = (thread: StoredThread): ExportedMessageRepository => ({
+  headId: thread.headId,
+  messages: thread.messages.map(({ parentId, message }: StoredMessage) => ({
+    parentId,
+    message: { ...message, createdAt: new Date(String(message.createdAt)) } as unknown as ThreadMessage,
+  })),
+});
+
+const messageText = (message: ThreadMessage) =>
+  message.content
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("\n")
+    .slice(0, EXCHANGE_TEXT_LIMIT);
+
+// The first question and the first answer to it
+export function firstExchange(messages: readonly ThreadMessage[]): TitleExchange {
+  const exchange: TitleExchange = [];
+  for (const role of ["user", "assistant"] as const) {
+    const message = messages.find((candidate) => candidate.role === role);
+    if (message) exchange.push({ role, text: messageText(message) });
+  }
+  return exchange;
+}
+
+export const threadListAdapter: RemoteThreadListAdapter = {
+  list: async () => {
+    const { threads } = await request<{ threads: ThreadSummary[] }>("/api/threads");
+    return {
+      threads: threads.map(({ id, title, status }) => ({ remoteId: id, status, title: title ?? undefined })),
+    };
+  },
+  initialize: async () => {
+    const { id } = await request<ThreadSummary>("/api/threads", { method: "POST" });
+    return { remoteId: id, externalId: undefined };
+  },
+  rename: (id, title) => updateThread(id, { title }),
+  archive: (id) => updateThread(id, { status: "archived" }),
+  unarchive: (id) => updateThread(id, { status: "regular" }),
+  delete: (id) => request<void>(threadUrl(id), { method: "DELETE" }),
+  // The server titles the thread and stores it; the runtime reads the title
+  // off the stream
+  generateTitle: async (id, messages) =>
+    createAssistantStream(async (controller) => {
+      try {
+        const { title } = await request<{ title: string }>(`${threadUrl(id)}/title`, {
+          method: "POST",
+          body: JSON.stringify({ exchange: firstExchange(messages) }),
+        });
+        controller.appendText(title);
+      } catch (error) {
+        console.error("Titling the thread failed:", error);
+      }
+    }),
+};
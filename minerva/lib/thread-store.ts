@@ -0,0 +1,171 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { threadSummary, type StoredMessage, type StoredThread, type ThreadSummary, type ThreadUpdate } from "@/lib/threads";
+
+// Server-side storage for assistant threads. Each thread is one JSON file in
+// the threads directory, named after its id, and is replaced whole on every
+// change. _index.json holds every thread's summary, so listing threads reads
+// one small file; it is rebuilt from the thread files if it goes missing.
+//
+//   THREADS_DIR  where the files live (default: data/threads)
+
+const threadsDir = () => process.env.THREADS_DIR ?? path.join(process.cwd(), "data", "threads");
+
+const isThreadId = (id: string) => /^[a-z0-9-]+$/.test(id);
+
+const threadFile = (id: string) => path.join(threadsDir(), `${id}.json`);
+
+// Not a valid thread id, so no thread can take its name or its queue
+const INDEX_ID = "_index";
+
+type ThreadIndex = Record<string, ThreadSummary>;
+
+// Changes to one thread run one at a time, so two appends that land together
+// don't overwrite each other. On globalThis so every route shares the queue.
+const store = globalThis as typeof globalThis & { minervaThreadWrites?: Map<string, Promise<unknown>> };
+const writes = (store.minervaThreadWrites ??= new Map());
+
+function serialized<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = writes.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(task);
+  writes.set(id, next);
+  next
+    .finally(() => {
+      if (writes.get(id) === next) writes.delete(id);
+    })
+    .catch(() => {});
+  return next;
+}
+
+async function readThread(id: string): Promise<StoredThread | null> {
+  try {
+    return JSON.parse(await readFile(threadFile(id), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// Written beside the target and renamed over it, so a crash never leaves half
+// a file behind
+async function writeJson(id: string, value: unknown): Promise<void> {
+  await mkdir(threadsDir(), { recursive: true });
+  const file = threadFile(id);
+  await writeFile(`${file}.tmp`, JSON.stringify(value), "utf8");
+  await rename(`${file}.tmp`, file);
+}
+
+// The summaries from every thread file, for when there is no index yet
+async function scanThreads(): Promise<ThreadIndex> {
+  let files: string[];
+  try {
+    files = (await readdir(threadsDir())).filter((file) => file.endsWith(".json"));
+  } catch {
+    return {};
+  }
+  const ids = files.map((file) => path.basename(file, ".json")).filter(isThreadId);
+  const threads = await Promise.all(ids.map(readThread));
+  return Object.fromEntries(
+    threads
+      .filter((thread): thread is StoredThread => thread !== null)
+      .map((thread) => [thread.id, threadSummary(thread)]),
+  );
+}
+
+async function readIndex(): Promise<ThreadIndex> {
+  try {
+    return JSON.parse(await readFile(threadFile(INDEX_ID), "utf8"));
+  } catch {
+    return scanThreads();
+  }
+}
+
+// Index changes queue like thread changes, so concurrent writes to different
+// threads don't drop each other's summaries
+const changeIndex = (change: (index: ThreadIndex) => void) =>
+  serialized(INDEX_ID, async () => {
+    const index = await readIndex();
+    change(index);
+    await writeJson(INDEX_ID, index);
+  });
+
+async function writeThread(thread: StoredThread): Promise<void> {
+  await writeJson(thread.id, thread);
+  await changeIndex((index) => {
+    index[thread.id] = threadSummary(thread);
+  });
+}
+
+// Every thread, archived ones included, most recently active first
+export async function listThreads(): Promise<ThreadSummary[]> {
+  const index = await serialized(INDEX_ID, readIndex);
+  return Object.values(index).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getThread(id: string): Promise<StoredThread | null> {
+  return isThreadId(id) ? readThread(id) : null;
+}
+
+export async function createThread(): Promise<StoredThread> {
+  const now = Date.now();
+  const thread: StoredThread = {
+    id: randomUUID(),
+    title: null,
+    status: "regular",
+    createdAt: now,
+    updatedAt: now,
+    headId: null,
+    messages: [],
+  };
+  await writeThread(thread);
+  return thread;
+}
+
+// Apply a change to a stored thread; null if there is no such thread
+function changeThread(id: string, change: (thread: StoredThread) => void): Promise<StoredThread | null> {
+  if (!isThreadId(id)) return Promise.resolve(null);
+  return serialized(id, async () => {
+    const thread = await readThread(id);
+    if (!thread) return null;
+    change(thread);
+    await writeThread(thread);
+    return thread;
+  });
+}
+
+// Add a message, or replace one the runtime has updated, and make it the head
+export const appendMessage = (id: string, item: StoredMessage) =>
+  changeThread(id, (thread) => {
+    const index = thread.messages.findIndex(({ message }) => message.id === item.message.id);
+    if (index >= 0) {
+      thread.messages[index] = item;
+    } else {
+      thread.messages.push(item);
+    }
+    thread.headId = item.message.id;
+    thread.updatedAt = Date.now();
+  });
+
+// Rename, archive or restore. Archiving doesn't count as activity, so the
+// thread keeps its place in the list.
+export const updateThread = (id: string, update: ThreadUpdate) =>
+  changeThread(id, (thread) => {
+    if ("title" in update) {
+      thread.title = update.title;
+    } else {
+      thread.status = update.status;
+    }
+  });
+
+export async function deleteThread(id: string): Promise<boolean> {
+  if (!isThreadId(id)) return false;
+  return serialized(id, async () => {
+    if (!(await readThread(id))) return false;
+    await rm(threadFile(id), { force: true });
+    await changeIndex((index) => {
+      delete index[id];
+    });
+    return true;
+  });
+}
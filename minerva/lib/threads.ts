@@ -0,0 +1,118 @@
+import { z } from "zod";
+
+// Assistant threads as the server keeps them, shared by the thread routes and
+// the Assistant page. A thread holds every message the runtime appended, each
+// with its parent, so edited and regenerated branches survive a reload.
+
+export type ThreadStatus = "regular" | "archived";
+
+// One message as the assistant runtime exports it; the store only relies on
+// its id
+export type StoredMessage = {
+  parentId: string | null;
+  message: { id: string } & Record<string, unknown>;
+};
+
+export type ThreadSummary = {
+  id: string;
+  title: string | null;
+  status: ThreadStatus;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+};
+
+export type StoredThread = Omit<ThreadSummary, "messageCount"> & {
+  headId: string | null;
+  messages: StoredMessage[];
+};
+
+export const TITLE_MAX_LENGTH = 60;
+
+// Serialized length of one stored message; the store rewrites the whole
+// thread on every append, so one huge message would slow every later one
+export const MESSAGE_MAX_LENGTH = 200_000;
+
+export const storedMessageSchema = z
+  .object({
+    parentId: z.string().nullable(),
+    message: z.object({ id: z.string().min(1).max(128) }).passthrough(),
+  })
+  .refine((item) => JSON.stringify(item).length <= MESSAGE_MAX_LENGTH, {
+    message: `Message is longer than ${MESSAGE_MAX_LENGTH} characters`,
+  });
+
+// Rename, archive or restore; one change per request
+export const threadUpdateSchema = z.union([
+  z.object({ title: z.string().trim().min(1).max(TITLE_MAX_LENGTH) }),
+  z.object({ status: z.enum(["regular", "archived"]) }),
+]);
+
+export type ThreadUpdate = z.infer<typeof threadUpdateSchema>;
+
+// The first exchange, as plain text, for titling a thread
+export const titleRequestSchema = z.object({
+  exchange: z
+    .array(z.object({ role: z.enum(["user", "assistant"]), text: z.string().max(4000) }))
+    .min(1)
+    .max(2),
+  model: z.string().optional(),
+});
+
+export type TitleExchange = z.infer<typeof titleRequestSchema>["exchange"];
+
+export const threadSummary = ({ id, title, status, createdAt, updatedAt, messages }: StoredThread): ThreadSummary => ({
+  id,
+  title,
+  status,
+  createdAt,
+  updatedAt,
+  messageCount: messages.length,
+});
+
+// The prompt's first line, and how it labels each side of the exchange; the
+// mock model reads both
+export const TITLE_PROMPT_LEAD = "Write a title for this conversation.";
+export const exchangeLine = (role: TitleExchange[number]["role"], text: string) =>
+  `${role === "user" ? "User" : "Assistant"}: ${text}`;
+
+export const titlePrompt = (exchange: TitleExchange) =>
+  [
+    `${TITLE_PROMPT_LEAD} Reply with the title only: at most six words, no quotes, no trailing punctuation.`,
+    "",
+    ...exchange.map(({ role, text }) => exchangeLine(role, text)),
+  ].join("\n");
+
+// One line, unquoted, and short enough for the thread list
+export function cleanTitle(text: string): string {
+  const line = text.split("\n").find((candidate) => candidate.trim()) ?? "";
+  const title = line
+    .trim()
+    .replace(/^title:\s*/i, "")
+    .replace(/^["'`*#\s]+|["'`*.\s]+$/g, "");
+  return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : title;
+}
+
+// When the model can't be reached: the start of the first question
+export const fallbackTitle = (exchange: TitleExchange) =>
+  cleanTitle(exchange.find(({ role }) => role === "user")?.text ?? "") || "Untitled thread";
+
+export type TranscriptLine = { role: string; text: string };
+
+const contentText = (content: unknown) =>
+  Array.isArray(content)
+    ? content.flatMap((part) => (part?.type === "text" && typeof part.text === "string" ? [part.text] : [])).join("\n")
+    : "";
+
+// The thread's current branch, oldest first, as plain text; for reading an
+// archived thread without restoring it
+export function threadTranscript(thread: StoredThread): TranscriptLine[] {
+  const byId = new Map(thread.messages.map((item) => [item.message.id, item]));
+  const transcript: TranscriptLine[] = [];
+  let item = thread.headId ? byId.get(thread.headId) : undefined;
+  while (item && transcript.length < thread.messages.length) {
+    transcript.unshift({ role: String(item.message.role), text: contentText(item.message.content) });
+    item = item.parentId ? byId.get(item.parentId) : undefined;
+  }
+  return transcript;
+}
@@ -0,0 +1,79 @@
+import type { LogEntry } from "@/lib/feed-state";
+import type { RosterEntry } from "@/lib/mission-manifest";
+import type { Category, Transmission } from "@/lib/protocol";
+
+// The units taking part in a mission, keyed by call sign. A mission manifest
+// can list them up front; any call sign that reports without being listed is
+// added as it appears on the feed.
+
+// Units silent for longer than this are flagged stale, unless the operator
+// picks another interval
+export const DEFAULT_STALE_AFTER_SECONDS = 120;
+
+export type UnitStatus = {
+  callSign: string;
+  vehicle: string;
+  unit?: string;
+  // Listed in the mission manifest, as opposed to only seen on the feed
+  listed: boolean;
+  lastAction: string | null;
+  lastCategory: Category | null;
+  // When the unit last reported, on the clock passed to buildRoster
+  lastReportAt: number | null;
+  messageCount: number;
+  enemyContacts: number;
+  enemies: string[];
+};
+
+const emptyStatus = (callSign: string, vehicle: string, unit?: string, listed = false): UnitStatus => ({
+  callSign,
+  vehicle,
+  unit,
+  listed,
+  lastAction: null,
+  lastCategory: null,
+  lastReportAt: null,
+  messageCount: 0,
+  enemyContacts: 0,
+  enemies: [],
+});
+
+/**
+ * Fold the log into one status per unit. `timeOf` picks the clock reports are
+ * measured on: arrival time for a live feed, mission time during a replay.
+ */
+export function buildRoster(
+  log: LogEntry[],
+  roster: RosterEntry[],
+  timeOf: (transmission: Transmission) => number,
+): UnitStatus[] {
+  const units = new Map<string, UnitStatus>(
+    roster.map((entry) => [entry.callSign, emptyStatus(entry.callSign, entry.vehicle, entry.unit, true)]),
+  );
+  for (const entry of log) {
+    if (entry.kind !== "transmission") continue;
+    const transmission = entry.transmission;
+    const status = units.get(transmission.callSign) ?? emptyStatus(transmission.callSign, transmission.vehicle);
+    const at = timeOf(transmission);
+    // Feeds can deliver out of order; the latest report wins
+    const latest = status.lastReportAt === null || at >= status.lastReportAt;
+    units.set(transmission.callSign, {
+      ...status,
+      lastAction: latest ? transmission.action : status.lastAction,
+      lastCategory: latest ? transmission.category : status.lastCategory,
+      lastReportAt: latest ? at : status.lastReportAt,
+      messageCount: status.messageCount + 1,
+      enemyContacts: status.enemyContacts + (transmission.enemy ? 1 : 0),
+      enemies:
+        transmission.enemy && !status.enemies.includes(transmission.enemy)
+          ? [...status.enemies, transmission.enemy]
+          : status.enemies,
+    });
+  }
+  return [...units.values()];
+}
+
+// A unit that never reported is stale as soon as the interval has passed
+// since the roster came up, which the caller tracks as `since`
+export const isStale = (status: UnitStatus, now: number, staleAfterSeconds: number, since = now) =>
+  now - (status.lastReportAt ?? since) > staleAfterSeconds * 1000;
@@ -0,0 +1,58 @@
+// One playback API over every kind of mission video. The YouTube player's
+// getters are asynchronous, so every getter here returns a promise.
+
+export type VideoControls = {
+  play: () => void;
+  pause: () => void;
+  seekTo: (seconds: number) => void;
+  getCurrentTime: () => Promise<number>;
+  getDuration: () => Promise<number>;
+};
+
+// The subset of the YouTube IFrame player (as wrapped by react-youtube) we use
+type YouTubePlayerApi = {
+  playVideo: () => unknown;
+  pauseVideo: () => unknown;
+  seekTo: (seconds: number, allowSeekAhead: boolean) => unknown;
+  getCurrentTime: () => Promise<number> | number;
+  getDuration: () => Promise<number> | number;
+};
+
+export const youTubeControls = (player: YouTubePlayerApi): VideoControls => ({
+  play: () => void player.playVideo(),
+  pause: () => void player.pauseVideo(),
+  seekTo: (seconds) => void player.seekTo(seconds, true),
+  getCurrentTime: async () => player.getCurrentTime(),
+  getDuration: async () => player.getDuration(),
+});
+
+export const htmlVideoControls = (video: HTMLVideoElement): VideoControls => ({
+  play: () => void video.play().catch(() => undefined),
+  pause: () => video.pause(),
+  seekTo: (seconds) => {
+    video.currentTime = seconds;
+  },
+  getCurrentTime: async () => video.currentTime,
+  getDuration: async () => (Number.isFinite(video.duration) ? video.duration : 0),
+});
+
+// Seeking exactly onto a frame boundary can land on the previous frame, so
+// seeks aim a hair past the start of the target frame
+const FRAME_EPSILON_SECONDS = 0.001;
+
+export const frameAt = (seconds: number, frameRate: number) =>
+  Math.floor((seconds + FRAME_EPSILON_SECONDS) * frameRate);
+
+export const snapToFrame = (seconds: number, frameRate: number) =>
+  Math.max(0, Math.round(seconds * frameRate)) / frameRate + FRAME_EPSILON_SECONDS;
+
+// Non-drop-frame timecode, HH:MM:SS:FF
+export function formatTimecode(seconds: number, frameRate: number): string {
+  const fps = Math.max(1, Math.round(frameRate));
+  const frame = frameAt(Math.max(0, seconds), frameRate);
+  const totalSeconds = Math.floor(frame / fps);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60, frame % fps]
+    .map(pad)
+    .join(":");
+}
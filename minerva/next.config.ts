@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The feed gateway's upstream client; bundling it breaks its optional
+  // native helpers
+  serverExternalPackages: ["ws"],
 };
 
 export default nextConfig;
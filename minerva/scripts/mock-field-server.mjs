@@ -0,0 +1,226 @@
+#!/usr/bin/env node
+// Local stand-in for the field-unit simulator. Plays a scripted scenario from
+// scenarios/*.json as WebSocketMessage frames, answers heartbeats and resume
+// requests, acknowledges orders, and can misbehave on purpose (jitter,
+// malformed frames, dropped connections, lost acks) so the dashboard can be
+// exercised without a backend.
+//
+//   npm run mock:feed -- --scenario scenarios/armor-push.json --port 8766 --rate 2
+
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { WebSocketServer } from "ws";
+
+const { values: args } = parseArgs({
+  options: {
+    scenario: { type: "string", default: "scenarios/delta-sector.json" },
+    port: { type: "string", default: "8765" },
+    // Playback speed multiplier applied to every step delay
+    rate: { type: "string", default: "1" },
+    // Random +/- milliseconds added to every step delay
+    jitter: { type: "string", default: "0" },
+    // Probability (0-1) that a frame is replaced by a malformed one
+    malformed: { type: "string", default: "0" },
+    // Drop each connection after this many seconds (0 = never)
+    "disconnect-every": { type: "string", default: "0" },
+    // Seed for the generated influence analysis payloads
+    seed: { type: "string", default: "1" },
+    // Milliseconds before an order is acknowledged
+    "ack-delay": { type: "string", default: "500" },
+    // Probability (0-1) that an order's ack is never sent
+    "drop-acks": { type: "string", default: "0" },
+  },
+});
+
+const port = Number(args.port);
+const rate = Math.max(0.01, Number(args.rate));
+const jitterMs = Math.max(0, Number(args.jitter));
+const malformedRate = Math.min(1, Math.max(0, Number(args.malformed)));
+const disconnectEveryMs = Math.max(0, Number(args["disconnect-every"])) * 1000;
+const seed = Number(args.seed);
+const ackDelayMs = Math.max(0, Number(args["ack-delay"]));
+const dropAckRate = Math.min(1, Math.max(0, Number(args["drop-acks"])));
+
+const scenario = JSON.parse(await readFile(args.scenario, "utf8"));
+const steps = scenario.steps;
+if (!Array.isArray(steps) || steps.length === 0) {
+  console.error(`Scenario ${args.scenario} has no steps`);
+  process.exit(1);
+}
+
+// Mission-clock offset of every step, and the length of one pass
+const stepOffsets = [];
+let scenarioDuration = 0;
+for (const step of steps) {
+  scenarioDuration += step.delay;
+  stepOffsets.push(scenarioDuration);
+}
+const startTime = Date.parse(scenario.startTime ?? new Date().toISOString());
+
+// Small deterministic PRNG so a resumed frame carries the same payload
+const mulberry32 = (a) => () => {
+  a |= 0;
+  a = (a + 0x6d2b79f5) | 0;
+  let t = Math.imul(a ^ (a >>> 15), 1 | a);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const round = (value) => Math.round(value * 1000) / 1000;
+
+const topN = (labels, random, n, boost = 0) =>
+  labels
+    .map((label) => ({ label, score: round(random() * (1 - boost) + boost * random()) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, n);
+
+const buildInfluenceAnalysis = (id, step) => {
+  const random = mulberry32(seed * 100_003 + id);
+  const analysis = {};
+  for (const action of scenario.actions) {
+    const boost = action === step.action ? 0.5 : 0;
+    const features = topN(scenario.features, random, 3, boost);
+    const entities = topN(scenario.entities, random, 3, boost);
+    const missions = topN(scenario.missions, random, 3, boost);
+    analysis[action] = {
+      top_3_overall: {
+        features: features.map((f) => f.label),
+        scores: features.map((f) => f.score),
+      },
+      entities: {
+        top_3: { labels: entities.map((e) => e.label), scores: entities.map((e) => e.score) },
+      },
+      mission: {
+        top_3: { labels: missions.map((m) => m.label), scores: missions.map((m) => m.score) },
+      },
+      visibility: {
+        legacy: round(random() * 0.5 + boost),
+        dynasty: round(random() * 0.5 + boost * 0.8),
+      },
+    };
+  }
+  return analysis;
+};
+
+const buildMessage = (id) => {
+  const index = (id - 1) % steps.length;
+  const pass = Math.floor((id - 1) / steps.length);
+  const step = steps[index];
+  // The delay only paces the scenario; it isn't part of the transmission
+  const fields = { ...step };
+  delete fields.delay;
+  return {
+    id,
+    ...fields,
+    timestamp: new Date(startTime + pass * scenarioDuration + stepOffsets[index]).toISOString(),
+    influence_analysis: buildInfluenceAnalysis(id, step),
+  };
+};
+
+const MALFORMED_VARIANTS = [
+  (message) => JSON.stringify(message).slice(0, 40),
+  // Without its call sign; stringify drops undefined fields
+  (message) => JSON.stringify({ ...message, callSign: undefined }),
+  (message) => JSON.stringify({ ...message, category: "hostile" }),
+  (message) => JSON.stringify({ ...message, timestamp: "yesterday" }),
+  (message) =>
+    JSON.stringify({
+      ...message,
+      influence_analysis: { [message.action]: { top_3_overall: { features: "n/a" } } },
+    }),
+];
+
+// Orders are accepted for any call sign in the scenario
+const callSigns = new Set(steps.map((step) => step.callSign));
+const ORDER_TYPES = new Set(["MOVE", "HOLD", "ENGAGE", "WITHDRAW", "RECON", "RESUPPLY", "REPORT"]);
+
+const reviewOrder = (frame) => {
+  if (!ORDER_TYPES.has(frame.order)) return { status: "rejected", reason: `unknown order type ${frame.order}` };
+  if (!callSigns.has(frame.target)) return { status: "rejected", reason: `no unit with call sign ${frame.target}` };
+  return { status: "accepted" };
+};
+
+const wss = new WebSocketServer({ port });
+
+wss.on("connection", (socket, req) => {
+  const peer = req.socket.remoteAddress;
+  let nextId = 1;
+  let stepTimer;
+  let disconnectTimer;
+  console.log(`[${peer}] connected`);
+
+  const scheduleNext = () => {
+    if (!scenario.loop && nextId > steps.length) {
+      console.log(`[${peer}] scenario complete`);
+      return;
+    }
+    const step = steps[(nextId - 1) % steps.length];
+    const jitter = jitterMs > 0 ? (Math.random() * 2 - 1) * jitterMs : 0;
+    stepTimer = setTimeout(emit, Math.max(0, step.delay / rate + jitter));
+  };
+
+  const emit = () => {
+    const message = buildMessage(nextId);
+    if (Math.random() < malformedRate) {
+      const variant = MALFORMED_VARIANTS[Math.floor(Math.random() * MALFORMED_VARIANTS.length)];
+      socket.send(variant(message));
+      console.log(`[${peer}] sent malformed frame in place of #${message.id}`);
+    } else {
+      socket.send(JSON.stringify(message));
+      nextId += 1;
+    }
+    scheduleNext();
+  };
+
+  socket.on("message", (data) => {
+    let frame;
+    try {
+      frame = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    if (frame.type === "ping") {
+      socket.send(JSON.stringify({ type: "pong" }));
+    } else if (frame.type === "resume" && Number.isInteger(frame.after_id)) {
+      nextId = frame.after_id + 1;
+      console.log(`[${peer}] resuming after #${frame.after_id}`);
+    } else if (frame.type === "order" && typeof frame.order_id === "string") {
+      // A retried order arrives again under the same id and is simply re-acked
+      const review = reviewOrder(frame);
+      console.log(`[${peer}] order ${frame.order_id}: ${frame.order} to ${frame.target}, ${review.status}`);
+      if (Math.random() < dropAckRate) {
+        console.log(`[${peer}] dropping ack of ${frame.order_id}`);
+        return;
+      }
+      setTimeout(() => {
+        if (socket.readyState === socket.OPEN) {
+          socket.send(JSON.stringify({ type: "ack", order_id: frame.order_id, ...review }));
+        }
+      }, ackDelayMs);
+    }
+  });
+
+  socket.on("close", () => {
+    clearTimeout(stepTimer);
+    clearTimeout(disconnectTimer);
+    console.log(`[${peer}] disconnected`);
+  });
+
+  if (disconnectEveryMs > 0) {
+    disconnectTimer = setTimeout(() => {
+      console.log(`[${peer}] dropping connection`);
+      socket.terminate();
+    }, disconnectEveryMs);
+  }
+
+  scheduleNext();
+});
+
+wss.on("listening", () => {
+  console.log(
+    `Mock field unit "${scenario.name}" on ws://localhost:${port} ` +
+      `(rate ${rate}x, jitter ${jitterMs}ms, malformed ${malformedRate}, ` +
+      `disconnect ${disconnectEveryMs ? `${disconnectEveryMs / 1000}s` : "never"}, ` +
+      `ack delay ${ackDelayMs}ms, dropped acks ${dropAckRate})`,
+  );
+});